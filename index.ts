@@ -3,19 +3,68 @@ import 'reflect-metadata';
 export * from './src/worker-method';
 export * from './src/worker';
 export * from './src/init-worker';
+export * from './src/init-worker-pool';
 export * from './src/run-in-worker';
 export { WorkerStatus } from './src/utility/types';
+export type {
+  WorkerCallOptions,
+  WorkerConnectOptions,
+  WorkerFinalizeOptions,
+  WorkerHeartbeatOptions,
+  WorkerRestartOptions,
+  WorkerThreadOptions,
+  WorkerRestartPolicy,
+} from './src/utility/types';
+export {
+  WorkerAbortError,
+  WorkerResourceLimitError,
+  WorkerTimeoutError,
+} from './src/utility/errors';
+export { setInlineWorkers } from './src/utility/inline-worker';
+export type {
+  WorkerMethodOptions,
+  WorkerCallbackOptions,
+} from './src/utility/metadata';
 export { WorkerEventName } from './src/utility/metadata';
 export {
   TransportType,
   TransportEncoder,
   TransportNoop,
+  TransportCallback,
+  TransportRemote,
+  Transfer,
 } from './src/utility/transport-metadata';
+export { retainCallback, releaseCallback } from './src/retain-callback';
+export { transfer } from './src/transfer';
 export type {
   Awaitable,
   TransportTypeFactory,
+  TransportTypeDescriptor,
+  TransportTypeOptions,
   TransportEncoder as TransportEncoderType,
+  RemoteObject,
 } from './src/utility/transport-metadata';
+export type {
+  WorkerEventApi,
+  WorkerEventArgs,
+  WorkerEventKey,
+} from './src/utility/worker-event-hub';
+export { TransportError } from './src/utility/transport-error';
+export {
+  TransportClass,
+  registerTransportClass,
+} from './src/utility/transport-class';
+export type { EncodedError } from './src/utility/transport';
+export { setTransportPreserveRefs } from './src/utility/transport';
 export { Shared } from './src/utility/shared-decorator';
 export type { SharedTypeFactory } from './src/utility/shared-decorator';
 export * from './src/to-shared';
+export * from './src/shared-sync';
+export * from './src/shared-ring-buffer';
+export { SharedStructArray } from './src/shared-struct-array';
+export { notifySharedChange } from './src/utility/shared-change';
+export type {
+  SharedChangeApi,
+  SharedChangeField,
+} from './src/utility/shared-change';
+export { snapshot, sharedWrite, SharedWriter } from './src/shared-snapshot';
@@ -0,0 +1,214 @@
+import { AnyClass } from 'nfkit';
+import { getWorkerMethods } from './worker-method';
+import { InitWorkerOptions, WorkerInstance } from './init-worker';
+import {
+  WorkerCallOptions,
+  WorkerFinalizeOptions,
+  WorkerStatus,
+} from './utility/types';
+import {
+  connectWorker,
+  defineWorkerMethodProxies,
+  prepareWorkerHost,
+  WorkerConnection,
+} from './utility/worker-host';
+import { defineWorkerEventApi } from './utility/worker-event-hub';
+import { defineSharedChangeApi } from './utility/shared-change';
+import { registerPeerConnector } from './utility/worker-peer';
+
+export type WorkerPoolStrategy = 'least-busy' | 'round-robin';
+
+export type WorkerPoolOptions = InitWorkerOptions & {
+  size: number;
+  strategy?: WorkerPoolStrategy;
+};
+
+export type WorkerPoolInstance<T> = WorkerInstance<T> & {
+  poolSize: () => number;
+  workerStatuses: () => WorkerStatus[];
+};
+
+/**
+ * Combine member statuses into a single pool status.
+ * The pool is Ready as long as at least one member can accept calls, and
+ * Idle when its members have been shut down for inactivity.
+ */
+const aggregateStatus = (statuses: WorkerStatus[]): WorkerStatus => {
+  if (statuses.includes(WorkerStatus.Ready)) return WorkerStatus.Ready;
+  if (statuses.includes(WorkerStatus.Initializing))
+    return WorkerStatus.Initializing;
+  if (statuses.includes(WorkerStatus.Restarting))
+    return WorkerStatus.Restarting;
+  if (statuses.includes(WorkerStatus.Idle)) return WorkerStatus.Idle;
+  if (statuses.every((status) => status === WorkerStatus.Finalized))
+    return WorkerStatus.Finalized;
+  return (
+    statuses.find((status) => status !== WorkerStatus.Finalized) ??
+    WorkerStatus.Finalized
+  );
+};
+
+/**
+ * Member statuses that can take a call, by preference
+ */
+const PICK_ORDER = [
+  WorkerStatus.Ready,
+  WorkerStatus.Initializing,
+  WorkerStatus.Idle,
+  WorkerStatus.Restarting,
+  // Busy with a long synchronous task: the call waits until it is done
+  WorkerStatus.Unresponsive,
+];
+
+export const initWorkerPool = async <C extends AnyClass>(
+  cls: C,
+  options: WorkerPoolOptions,
+  ...args: ConstructorParameters<C>
+): Promise<WorkerPoolInstance<InstanceType<C>>> => {
+  const { size, strategy = 'least-busy', ...connectOptions } = options;
+  if (!Number.isInteger(size) || size < 1) {
+    throw new TypeError(
+      `Worker pool size must be a positive integer, got: ${size}`,
+    );
+  }
+
+  // All members share one main-thread instance, one set of encoded
+  // constructor arguments and one typed-struct SharedArrayBuffer
+  const context = await prepareWorkerHost(cls, args);
+  const { instance } = context;
+  const connections: WorkerConnection[] = [];
+  for (let i = 0; i < size; i++) {
+    connections.push(connectWorker(context, connectOptions));
+  }
+
+  let finalized = false;
+  let nextIndex = 0;
+
+  const withStatus = (status: WorkerStatus) =>
+    connections.filter((connection) => connection.status() === status);
+
+  // Idle members are only woken up when no member is ready or starting.
+  // Calls to a starting or restarting member wait for its new thread, as
+  // with initWorker().
+  const pick = (): WorkerConnection | null => {
+    const available = PICK_ORDER.map(withStatus).find(
+      (members) => members.length > 0,
+    );
+    if (!available) return null;
+    if (strategy === 'round-robin') {
+      const connection = available[nextIndex % available.length];
+      nextIndex += 1;
+      return connection;
+    }
+    return available.reduce((best, connection) =>
+      connection.activeCount() < best.activeCount() ? connection : best,
+    );
+  };
+
+  const call = async (
+    method: string,
+    methodArgs: unknown[],
+    callOptions?: WorkerCallOptions,
+  ) => {
+    if (finalized)
+      return Promise.reject(new Error('Worker has been finalized'));
+    const connection = pick();
+    if (!connection) {
+      return Promise.reject(new Error('No worker in the pool is available'));
+    }
+    return connection.call(method, methodArgs, callOptions);
+  };
+
+  const stream = async function* (
+    method: string,
+    methodArgs: unknown[],
+    callOptions?: WorkerCallOptions,
+  ) {
+    if (finalized) throw new Error('Worker has been finalized');
+    const connection = pick();
+    if (!connection) throw new Error('No worker in the pool is available');
+    yield* connection.stream(method, methodArgs, callOptions);
+  };
+
+  const closeSharedChanges = defineSharedChangeApi(
+    instance,
+    context.workerData.typedStruct?.changeCounter,
+  );
+
+  const finalize = async (options?: WorkerFinalizeOptions): Promise<void> => {
+    if (finalized) return;
+    finalized = true;
+    closeSharedChanges();
+    await Promise.all(
+      connections.map((connection) => connection.finalize(options)),
+    );
+  };
+
+  defineWorkerMethodProxies(instance, getWorkerMethods(cls.prototype), {
+    call,
+    stream,
+  });
+  defineWorkerEventApi(instance, context.events);
+  registerPeerConnector(instance, {
+    classId: context.registration.id,
+    connect: () => {
+      if (finalized) throw new Error('Worker has been finalized');
+      const connection = pick();
+      if (!connection) throw new Error('No worker in the pool is available');
+      return connection.connectPeer();
+    },
+  });
+
+  Object.defineProperty(instance, 'finalize', {
+    configurable: true,
+    enumerable: false,
+    writable: false,
+    value: finalize,
+  });
+
+  Object.defineProperty(instance, 'workerStatus', {
+    configurable: true,
+    enumerable: false,
+    writable: false,
+    value: (): WorkerStatus =>
+      finalized
+        ? WorkerStatus.Finalized
+        : aggregateStatus(connections.map((connection) => connection.status())),
+  });
+
+  // Pings the member the next call would go to
+  Object.defineProperty(instance, 'ping', {
+    configurable: true,
+    enumerable: false,
+    writable: false,
+    value: async (): Promise<number> => {
+      if (finalized) throw new Error('Worker has been finalized');
+      const connection = pick();
+      if (!connection) throw new Error('No worker in the pool is available');
+      return connection.ping();
+    },
+  });
+
+  Object.defineProperty(instance, 'workerStatuses', {
+    configurable: true,
+    enumerable: false,
+    writable: false,
+    value: (): WorkerStatus[] =>
+      connections.map((connection) => connection.status()),
+  });
+
+  Object.defineProperty(instance, 'poolSize', {
+    configurable: true,
+    enumerable: false,
+    writable: false,
+    value: (): number => connections.length,
+  });
+
+  try {
+    await Promise.all(connections.map((connection) => connection.ready));
+  } catch (error) {
+    await finalize();
+    throw error;
+  }
+  return instance as WorkerPoolInstance<InstanceType<C>>;
+};
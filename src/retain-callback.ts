@@ -0,0 +1,50 @@
+type CallbackHandleState = {
+  retained: boolean;
+  release: () => void;
+};
+
+const callbackHandles = new WeakMap<object, CallbackHandleState>();
+
+export const registerCallbackHandle = (
+  fn: object,
+  state: CallbackHandleState,
+): void => {
+  callbackHandles.set(fn, state);
+};
+
+/**
+ * Release the handles of the given @TransportCallback() functions unless
+ * they were retained.
+ */
+export const releaseUnretainedCallbacks = (fns: object[]): void => {
+  for (const fn of fns) {
+    const state = callbackHandles.get(fn);
+    if (state && !state.retained) state.release();
+  }
+};
+
+/**
+ * Keep a @TransportCallback() function usable after the worker method that
+ * received it has returned. By default the main thread drops its reference
+ * as soon as the call completes.
+ *
+ * @returns The same function
+ */
+export const retainCallback = <F extends (...args: any[]) => any>(fn: F): F => {
+  const state = callbackHandles.get(fn);
+  if (!state) {
+    throw new TypeError(
+      'retainCallback() expects a @TransportCallback() function',
+    );
+  }
+  state.retained = true;
+  return fn;
+};
+
+/**
+ * Let the main thread drop a retained @TransportCallback() function.
+ * Calling the function afterwards rejects.
+ */
+export const releaseCallback = (fn: (...args: any[]) => any): void => {
+  callbackHandles.get(fn)?.release();
+};
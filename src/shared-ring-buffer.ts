@@ -0,0 +1,274 @@
+import { AnyClass } from 'nfkit';
+import { getTypedStructInfo } from './utility/type-helpers';
+import { createTypedStructInstance } from './utility/typed-struct-registry';
+import { atomicsWaitAsync } from './utility/atomics-wait-async';
+import {
+  findRecordClass,
+  getRecordSize,
+  setRecordClass,
+} from './utility/record-class';
+
+// Header slots, one Int32 each
+const HEAD = 0; // next record to read, in [0, 2 * capacity)
+const TAIL = 1; // next record to write, in [0, 2 * capacity)
+const CLOSED = 2;
+const SEQUENCE = 3; // bumped on every change, waited on by both sides
+const HEADER_BYTES = 16;
+
+type RingViews = { header: Int32Array; data: Buffer };
+
+// Header and data views of each ring buffer, built from `buffer` on first
+// use so that copies received from another thread get their own
+const viewCache = new WeakMap<SharedRingBuffer<any>, RingViews>();
+
+const deadline = (timeout?: number): number =>
+  timeout === undefined ? Infinity : Date.now() + Math.max(0, timeout);
+
+/**
+ * Single-producer / single-consumer queue of fixed-size records in a
+ * SharedArrayBuffer. One thread pushes and the other pops without locks or
+ * messages. Records are Buffers of `recordSize` bytes, or typed-struct
+ * instances with `SharedRingBuffer.of(StructClass)`.
+ *
+ * Only `buffer`, `capacity` and `recordSize` are stored on the instance, so
+ * the ring buffer can be passed to the worker as a `@Shared()` constructor
+ * parameter or a method argument.
+ */
+export class SharedRingBuffer<T = Buffer> implements AsyncIterable<T> {
+  buffer: SharedArrayBuffer;
+  capacity: number;
+  recordSize: number;
+
+  constructor(capacity: number, recordSize?: number) {
+    const recordClass = findRecordClass(new.target);
+    const size = recordClass ? getRecordSize(recordClass) : recordSize;
+    if (!Number.isInteger(capacity) || capacity <= 0) {
+      throw new RangeError(
+        `SharedRingBuffer capacity must be a positive integer: ${capacity}`,
+      );
+    }
+    if (!Number.isInteger(size) || size <= 0) {
+      throw new RangeError(
+        `SharedRingBuffer recordSize must be a positive integer: ${size}`,
+      );
+    }
+    this.capacity = capacity;
+    this.recordSize = size;
+    this.buffer = new SharedArrayBuffer(HEADER_BYTES + capacity * size);
+  }
+
+  /**
+   * Create a ring buffer class whose records are instances of a typed-struct
+   * class. Extend it to get a named class usable as a parameter type:
+   * `class FrameRing extends SharedRingBuffer.of(Frame) {}`
+   */
+  static of<S extends AnyClass>(
+    structCls: S,
+  ): new (capacity: number) => SharedRingBuffer<InstanceType<S>> {
+    if (!getTypedStructInfo(structCls)) {
+      throw new TypeError(
+        `SharedRingBuffer.of() expects a typed-struct class: ${structCls.name}`,
+      );
+    }
+    class StructRingBuffer extends SharedRingBuffer<InstanceType<S>> {
+      constructor(capacity: number) {
+        super(capacity);
+      }
+    }
+    setRecordClass(StructRingBuffer, structCls);
+    return StructRingBuffer;
+  }
+
+  private get views(): RingViews {
+    let views = viewCache.get(this);
+    if (!views) {
+      views = {
+        header: new Int32Array(this.buffer, 0, HEADER_BYTES / 4),
+        data: Buffer.from(this.buffer, HEADER_BYTES),
+      };
+      viewCache.set(this, views);
+    }
+    return views;
+  }
+
+  private get recordClass(): AnyClass | undefined {
+    return findRecordClass(this.constructor);
+  }
+
+  private next(index: number): number {
+    return (index + 1) % (this.capacity * 2);
+  }
+
+  private offset(index: number): number {
+    return (index % this.capacity) * this.recordSize;
+  }
+
+  /**
+   * Number of records waiting to be popped
+   */
+  size(): number {
+    const { header } = this.views;
+    const count = Atomics.load(header, TAIL) - Atomics.load(header, HEAD);
+    return count < 0 ? count + this.capacity * 2 : count;
+  }
+
+  isClosed(): boolean {
+    return Atomics.load(this.views.header, CLOSED) === 1;
+  }
+
+  /**
+   * Stop accepting records. Records already pushed can still be popped,
+   * then pops return `undefined` and async iteration ends.
+   */
+  close(): void {
+    const { header } = this.views;
+    Atomics.store(header, CLOSED, 1);
+    this.notify();
+  }
+
+  /**
+   * Push a record unless the ring buffer is full.
+   * @returns false if the ring buffer is full
+   */
+  tryPush(value: T): boolean {
+    if (this.isClosed()) throw new Error('SharedRingBuffer is closed');
+    const bytes = this.toBytes(value);
+    if (this.size() >= this.capacity) return false;
+
+    const { header, data } = this.views;
+    const tail = Atomics.load(header, TAIL);
+    const offset = this.offset(tail);
+    bytes.copy(data, offset);
+    data.fill(0, offset + bytes.length, offset + this.recordSize);
+    Atomics.store(header, TAIL, this.next(tail));
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Push a record, blocking the thread while the ring buffer is full.
+   * @returns false if `timeout` milliseconds elapsed first
+   */
+  push(value: T, timeout?: number): boolean {
+    const until = deadline(timeout);
+    for (;;) {
+      const sequence = Atomics.load(this.views.header, SEQUENCE);
+      if (this.tryPush(value)) return true;
+      if (!this.wait(sequence, until)) return false;
+    }
+  }
+
+  /**
+   * Same as push() without blocking the event loop.
+   */
+  async pushAsync(value: T, timeout?: number): Promise<boolean> {
+    const until = deadline(timeout);
+    for (;;) {
+      const sequence = Atomics.load(this.views.header, SEQUENCE);
+      if (this.tryPush(value)) return true;
+      if (!(await this.waitAsync(sequence, until))) return false;
+    }
+  }
+
+  /**
+   * Pop a record if one is available.
+   */
+  tryPop(): T | undefined {
+    if (this.size() === 0) return undefined;
+
+    const { header, data } = this.views;
+    const head = Atomics.load(header, HEAD);
+    const offset = this.offset(head);
+    // Copy the record out, since the slot is reused once HEAD moves on
+    const bytes = Buffer.from(data.subarray(offset, offset + this.recordSize));
+    Atomics.store(header, HEAD, this.next(head));
+    this.notify();
+    return this.fromBytes(bytes);
+  }
+
+  /**
+   * Pop a record, blocking the thread while the ring buffer is empty.
+   * @returns undefined once the ring buffer is closed and drained, or if
+   * `timeout` milliseconds elapsed first
+   */
+  pop(timeout?: number): T | undefined {
+    const until = deadline(timeout);
+    for (;;) {
+      const sequence = Atomics.load(this.views.header, SEQUENCE);
+      const value = this.tryPop();
+      if (value !== undefined) return value;
+      // Records pushed right before close() are still delivered
+      if (this.isClosed()) return this.tryPop();
+      if (!this.wait(sequence, until)) return undefined;
+    }
+  }
+
+  /**
+   * Same as pop() without blocking the event loop.
+   */
+  async popAsync(timeout?: number): Promise<T | undefined> {
+    const until = deadline(timeout);
+    for (;;) {
+      const sequence = Atomics.load(this.views.header, SEQUENCE);
+      const value = this.tryPop();
+      if (value !== undefined) return value;
+      // Records pushed right before close() are still delivered
+      if (this.isClosed()) return this.tryPop();
+      if (!(await this.waitAsync(sequence, until))) return undefined;
+    }
+  }
+
+  /**
+   * Pop records until the ring buffer is closed and drained.
+   */
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    for (;;) {
+      const value = await this.popAsync();
+      if (value === undefined) return;
+      yield value;
+    }
+  }
+
+  private notify(): void {
+    const { header } = this.views;
+    Atomics.add(header, SEQUENCE, 1);
+    Atomics.notify(header, SEQUENCE);
+  }
+
+  private wait(sequence: number, until: number): boolean {
+    const remaining = until - Date.now();
+    if (remaining <= 0) return false;
+    Atomics.wait(this.views.header, SEQUENCE, sequence, remaining);
+    return true;
+  }
+
+  private async waitAsync(sequence: number, until: number): Promise<boolean> {
+    const remaining = until - Date.now();
+    if (remaining <= 0) return false;
+    await atomicsWaitAsync(this.views.header, SEQUENCE, sequence, remaining);
+    return true;
+  }
+
+  private toBytes(value: T): Buffer {
+    const recordClass = this.recordClass;
+    const bytes = recordClass
+      ? (getTypedStructInfo(recordClass)!.structCls.raw(value) as Buffer)
+      : (value as unknown as Buffer);
+    if (!Buffer.isBuffer(bytes)) {
+      throw new TypeError('SharedRingBuffer records must be Buffers');
+    }
+    if (bytes.length > this.recordSize) {
+      throw new RangeError(
+        `SharedRingBuffer record is larger than ${this.recordSize} bytes: ${bytes.length}`,
+      );
+    }
+    return bytes;
+  }
+
+  private fromBytes(bytes: Buffer): T {
+    const recordClass = this.recordClass;
+    return recordClass
+      ? createTypedStructInstance(recordClass, bytes)
+      : (bytes as unknown as T);
+  }
+}
@@ -0,0 +1,161 @@
+import { AnyClass } from 'nfkit';
+import { getTypedStructInfo } from './utility/type-helpers';
+import { createTypedStructInstance } from './utility/typed-struct-registry';
+import { isSharedArrayBuffer } from './utility/is-shared-array-buffer';
+
+// Write sequence of every typed-struct worker instance in this thread.
+// Odd while a write is in progress.
+const writeSequences = new WeakMap<object, Int32Array>();
+
+// Sequences of typed-struct fields, created once so that they identify the
+// memory they guard
+const fieldSequences = new WeakMap<object, Map<string, Int32Array>>();
+
+// Milliseconds snapshot() waits for a write in progress before checking again
+const RETRY_WAIT = 1;
+
+// Sequences written by the sharedWrite() calls running in this thread
+const activeWrites = new Set<Int32Array>();
+
+export const registerWriteSequence = (
+  instance: object,
+  sequence: SharedArrayBuffer,
+): void => {
+  writeSequences.set(instance, new Int32Array(sequence));
+};
+
+/**
+ * End the write a terminated thread left in progress, before another thread
+ * takes over the memory.
+ */
+export const resetWriteSequence = (sequence: SharedArrayBuffer): void => {
+  const view = new Int32Array(sequence);
+  if (Atomics.load(view, 0) % 2 !== 0) {
+    Atomics.add(view, 0, 1);
+    Atomics.notify(view, 0);
+  }
+};
+
+const getRaw = (instance: object, caller: string): Buffer => {
+  const structInfo = getTypedStructInfo(instance.constructor as AnyClass);
+  if (!structInfo) {
+    throw new TypeError(
+      `${caller}: ${instance.constructor.name} is not a typed-struct class`,
+    );
+  }
+  return structInfo.structCls.raw(instance) as Buffer;
+};
+
+/**
+ * The sequence of a worker instance, or the one stored in a 4-byte field
+ * (e.g. `Int32LE`) of any shared typed-struct instance.
+ */
+const getSequence = (
+  instance: object,
+  field: string | undefined,
+  caller: string,
+): Int32Array => {
+  if (field === undefined) {
+    const sequence = writeSequences.get(instance);
+    if (!sequence) {
+      throw new TypeError(
+        `${caller}: ${instance.constructor.name} is not a typed-struct worker instance, pass a sequence field`,
+      );
+    }
+    return sequence;
+  }
+  const structInfo = getTypedStructInfo(instance.constructor as AnyClass);
+  if (!structInfo || !structInfo.fields.has(field)) {
+    throw new TypeError(
+      `${caller}: ${instance.constructor.name} has no typed-struct field ${field}`,
+    );
+  }
+  const raw = getRaw(instance, caller);
+  if (!isSharedArrayBuffer(raw)) {
+    throw new TypeError(
+      `${caller}: ${instance.constructor.name} is not backed by a SharedArrayBuffer`,
+    );
+  }
+  let sequences = fieldSequences.get(instance);
+  if (!sequences) {
+    sequences = new Map();
+    fieldSequences.set(instance, sequences);
+  }
+  let sequence = sequences.get(field);
+  if (!sequence) {
+    const offset = structInfo.structCls.getOffsets()[field] as number;
+    sequence = new Int32Array(raw.buffer, raw.byteOffset + offset, 1);
+    sequences.set(field, sequence);
+  }
+  return sequence;
+};
+
+/**
+ * Run `fn` as a write to the shared memory of `instance`, so that
+ * snapshot() never observes it half done. Only the synchronous part of `fn`
+ * is covered: if it returns a promise, what runs after an `await` is not
+ * part of the write, so update related fields together in one synchronous
+ * step. Writes made from within `fn` are part of it. Use a SharedMutex when
+ * several threads write.
+ */
+export const sharedWrite = <R>(
+  instance: object,
+  fn: () => R,
+  field?: string,
+): R => {
+  const sequence = getSequence(instance, field, 'sharedWrite()');
+  if (activeWrites.has(sequence)) return fn();
+
+  activeWrites.add(sequence);
+  Atomics.add(sequence, 0, 1);
+  try {
+    return fn();
+  } finally {
+    activeWrites.delete(sequence);
+    Atomics.add(sequence, 0, 1);
+    Atomics.notify(sequence, 0);
+  }
+};
+
+/**
+ * Run the method as a sharedWrite() on its instance. Combined with
+ * @WorkerMethod(), the fields it writes in the worker are read coherently by
+ * snapshot() on the main thread.
+ */
+export const SharedWriter =
+  (field?: string): MethodDecorator =>
+  (target, propertyKey, descriptor: PropertyDescriptor) => {
+    const method = descriptor.value;
+    if (typeof method !== 'function') {
+      throw new TypeError(
+        `@SharedWriter() can only decorate methods: ${String(propertyKey)}`,
+      );
+    }
+    descriptor.value = function (this: object, ...args: unknown[]) {
+      return sharedWrite(this, () => method.apply(this, args), field);
+    };
+  };
+
+/**
+ * Copy the fields of a shared typed-struct instance while no sharedWrite()
+ * is in progress. The copy is not shared, so later writes do not change it.
+ * Writes are synchronous, so a write in progress runs on another thread and
+ * the copy is retried shortly after.
+ */
+export const snapshot = <T extends object>(instance: T, field?: string): T => {
+  const sequence = getSequence(instance, field, 'snapshot()');
+  const raw = getRaw(instance, 'snapshot()');
+  const copy = (bytes: Buffer): T =>
+    createTypedStructInstance(instance.constructor as AnyClass, bytes, true);
+  // Called from within a write: no other write can be in progress
+  if (activeWrites.has(sequence)) return copy(Buffer.from(raw));
+  for (;;) {
+    const before = Atomics.load(sequence, 0);
+    if (before % 2 !== 0) {
+      Atomics.wait(sequence, 0, before, RETRY_WAIT);
+      continue;
+    }
+    const bytes = Buffer.from(raw);
+    if (Atomics.load(sequence, 0) === before) return copy(bytes);
+  }
+};
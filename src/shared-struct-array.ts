@@ -0,0 +1,227 @@
+import { AnyClass } from 'nfkit';
+import { isMainThread, threadId } from 'node:worker_threads';
+import { getTypedStructInfo } from './utility/type-helpers';
+import { createTypedStructInstance } from './utility/typed-struct-registry';
+import {
+  findRecordClass,
+  getRecordSize,
+  setRecordClass,
+} from './utility/record-class';
+
+/**
+ * Buffer of a SharedStructArray after a grow(), sent to every worker so that
+ * the copies they hold switch to the new memory.
+ */
+export type SharedStructArrayUpdate = {
+  id: string;
+  buffer: SharedArrayBuffer;
+  version: number;
+};
+
+// Main thread: the copy every array was last grown through, so that other
+// copies with the same id follow it. The entry goes with that copy.
+const grownArrays = new Map<string, WeakRef<SharedStructArray<unknown>>>();
+const grownArrayCleanup = new FinalizationRegistry<{
+  id: string;
+  ref: WeakRef<SharedStructArray<unknown>>;
+}>(({ id, ref }) => {
+  if (grownArrays.get(id) === ref) grownArrays.delete(id);
+});
+
+// Worker threads: the newest buffer received for every array, by id.
+// Workers only receive the buffers of arrays they were sent.
+const receivedStates = new Map<string, SharedStructArrayUpdate>();
+
+const growListeners = new Set<(update: SharedStructArrayUpdate) => void>();
+
+let nextArrayId = 0;
+
+const getLatestState = (id: string): SharedStructArrayUpdate | undefined =>
+  grownArrays.get(id)?.deref() ?? receivedStates.get(id);
+
+/**
+ * Subscribe to grow() calls in this thread.
+ * @returns A function that unsubscribes
+ */
+export const onSharedStructArrayGrow = (
+  listener: (update: SharedStructArrayUpdate) => void,
+): (() => void) => {
+  growListeners.add(listener);
+  return () => growListeners.delete(listener);
+};
+
+/**
+ * The newest buffer of an array grown in this thread, for a restarted
+ * worker to catch up with.
+ */
+export const getSharedStructArrayUpdate = (
+  id: string,
+): SharedStructArrayUpdate | undefined => {
+  const latest = grownArrays.get(id)?.deref();
+  return (
+    latest && { id: latest.id, buffer: latest.buffer, version: latest.version }
+  );
+};
+
+/**
+ * Record a buffer received from another thread.
+ */
+export const applySharedStructArrayUpdate = (
+  update: SharedStructArrayUpdate,
+): void => {
+  const latest = receivedStates.get(update.id);
+  if (!latest || latest.version < update.version) {
+    receivedStates.set(update.id, update);
+  }
+};
+
+/**
+ * Fixed-size records of a typed-struct class laid out contiguously in one
+ * SharedArrayBuffer. Create the array class with
+ * `SharedStructArray.of(StructClass)`.
+ *
+ * Only `id`, `buffer` and `version` are stored on the instance, so the whole
+ * array is transported as a single shared reference.
+ */
+export class SharedStructArray<T> implements Iterable<T> {
+  id: string;
+  buffer: SharedArrayBuffer;
+  // Incremented by grow()
+  version: number;
+
+  constructor(length: number) {
+    const recordClass = findRecordClass(new.target);
+    if (!recordClass) {
+      throw new TypeError(
+        'Create SharedStructArray classes with SharedStructArray.of()',
+      );
+    }
+    if (!Number.isInteger(length) || length < 0) {
+      throw new RangeError(
+        `SharedStructArray length must be a non-negative integer: ${length}`,
+      );
+    }
+    this.id = `${threadId}:${nextArrayId}`;
+    nextArrayId += 1;
+    this.buffer = new SharedArrayBuffer(length * getRecordSize(recordClass));
+    this.version = 0;
+  }
+
+  /**
+   * Create an array class whose records are instances of a typed-struct
+   * class. Extend it to get a named class usable as a parameter type:
+   * `class Points extends SharedStructArray.of(Point) {}`
+   */
+  static of<S extends AnyClass>(
+    structCls: S,
+  ): new (length: number) => SharedStructArray<InstanceType<S>> {
+    if (!getTypedStructInfo(structCls)) {
+      throw new TypeError(
+        `SharedStructArray.of() expects a typed-struct class: ${structCls.name}`,
+      );
+    }
+    class StructArray extends SharedStructArray<InstanceType<S>> {}
+    setRecordClass(StructArray, structCls);
+    return StructArray;
+  }
+
+  private get recordClass(): AnyClass {
+    return findRecordClass(this.constructor)!;
+  }
+
+  /**
+   * Switch to the newest buffer known in this thread
+   */
+  private sync(): void {
+    const latest = getLatestState(this.id);
+    if (latest && latest.version > this.version) {
+      this.buffer = latest.buffer;
+      this.version = latest.version;
+    }
+  }
+
+  /**
+   * Number of records, including those added by grow() in another thread
+   */
+  get length(): number {
+    this.sync();
+    return this.buffer.byteLength / getRecordSize(this.recordClass);
+  }
+
+  private checkIndex(index: number): void {
+    if (!Number.isInteger(index) || index < 0 || index >= this.length) {
+      throw new RangeError(
+        `SharedStructArray index out of range: ${index} (length ${this.length})`,
+      );
+    }
+  }
+
+  /**
+   * A record backed by the shared memory: writes to its fields are visible
+   * to every thread. The record keeps using the current buffer after grow().
+   */
+  at(index: number): T {
+    this.checkIndex(index);
+    const recordSize = getRecordSize(this.recordClass);
+    return createTypedStructInstance(
+      this.recordClass,
+      Buffer.from(this.buffer, index * recordSize, recordSize),
+    );
+  }
+
+  /**
+   * Copy the fields of `value` into the record at `index`.
+   */
+  set(index: number, value: T): void {
+    this.checkIndex(index);
+    const recordSize = getRecordSize(this.recordClass);
+    const structCls = getTypedStructInfo(this.recordClass)!.structCls;
+    const bytes = structCls.raw(value) as Buffer;
+    bytes.copy(Buffer.from(this.buffer, index * recordSize, recordSize));
+  }
+
+  /**
+   * Move the records to a larger buffer and send it to every worker the
+   * array was passed to or received from.
+   * Records returned by at() before the call keep using the old buffer, and
+   * writes made to it from now on are lost, so grow the array while no
+   * other thread writes to it.
+   */
+  grow(length: number): void {
+    if (!isMainThread) {
+      throw new Error('SharedStructArray can only grow on the main thread');
+    }
+    if (!Number.isInteger(length) || length < this.length) {
+      throw new RangeError(
+        `SharedStructArray cannot shrink from ${this.length} to ${length}`,
+      );
+    }
+    const recordSize = getRecordSize(this.recordClass);
+    const buffer = new SharedArrayBuffer(length * recordSize);
+    new Uint8Array(buffer).set(new Uint8Array(this.buffer));
+
+    this.buffer = buffer;
+    this.version += 1;
+    const update: SharedStructArrayUpdate = {
+      id: this.id,
+      buffer,
+      version: this.version,
+    };
+    if (grownArrays.get(this.id)?.deref() !== this) {
+      const ref = new WeakRef<SharedStructArray<unknown>>(this);
+      grownArrays.set(this.id, ref);
+      grownArrayCleanup.register(this, { id: this.id, ref });
+    }
+    growListeners.forEach((listener) => listener(update));
+  }
+
+  *[Symbol.iterator](): Iterator<T> {
+    for (let index = 0; index < this.length; index++) {
+      yield this.at(index);
+    }
+  }
+
+  toArray(): T[] {
+    return [...this];
+  }
+}
@@ -0,0 +1,294 @@
+import { AnyClass } from 'nfkit';
+import { getTypedStructInfo } from './utility/type-helpers';
+import { isSharedArrayBuffer } from './utility/is-shared-array-buffer';
+import { atomicsWaitAsync } from './utility/atomics-wait-async';
+
+// Views are derived from the transported fields, so they are kept out of the
+// instance and survive transport
+const views = new WeakMap<SharedPrimitive, Int32Array>();
+
+const toTimeout = (timeout?: number): number =>
+  timeout === undefined ? Infinity : Math.max(0, timeout);
+
+/**
+ * Base of the shared synchronization primitives: a single Int32 slot in a
+ * SharedArrayBuffer. Only `buffer` and `byteOffset` are stored on the
+ * instance, so a primitive passed to or returned from the worker (with
+ * `@TransportType()` or a parameter type) operates on the same memory.
+ */
+export abstract class SharedPrimitive {
+  /**
+   * Bytes used by a primitive
+   */
+  static readonly byteLength = Int32Array.BYTES_PER_ELEMENT;
+
+  buffer: SharedArrayBuffer;
+  byteOffset: number;
+
+  protected constructor(initial: number) {
+    this.buffer = new SharedArrayBuffer(SharedPrimitive.byteLength);
+    this.byteOffset = 0;
+    Atomics.store(this.view, 0, initial);
+  }
+
+  /**
+   * Attach to a primitive stored at `byteOffset` of `buffer`.
+   * The memory is used as is and not initialized.
+   */
+  static from<T extends SharedPrimitive>(
+    this: abstract new (...args: any[]) => T,
+    buffer: SharedArrayBuffer,
+    byteOffset = 0,
+  ): T {
+    if (!isSharedArrayBuffer(buffer)) {
+      throw new TypeError(`${this.name} requires a SharedArrayBuffer`);
+    }
+    if (byteOffset % SharedPrimitive.byteLength !== 0) {
+      throw new RangeError(
+        `${this.name} byteOffset must be a multiple of ${SharedPrimitive.byteLength}: ${byteOffset}`,
+      );
+    }
+    const primitive: T = Object.create(this.prototype);
+    primitive.buffer = buffer;
+    primitive.byteOffset = byteOffset;
+    return primitive;
+  }
+
+  /**
+   * Attach to a primitive stored in a 4-byte field (e.g. `Int32LE`) of a
+   * shared typed-struct instance, such as a worker class extending a struct.
+   */
+  static fromStruct<T extends SharedPrimitive>(
+    this: abstract new (...args: any[]) => T,
+    instance: object,
+    field: string,
+  ): T {
+    const structInfo = getTypedStructInfo(instance.constructor as AnyClass);
+    if (!structInfo || !structInfo.fields.has(field)) {
+      throw new TypeError(
+        `${this.name}: ${instance.constructor.name} has no typed-struct field ${field}`,
+      );
+    }
+    const raw = structInfo.structCls.raw(instance) as Buffer;
+    if (!isSharedArrayBuffer(raw)) {
+      throw new TypeError(
+        `${this.name}: ${instance.constructor.name} is not backed by a SharedArrayBuffer`,
+      );
+    }
+    const offset = structInfo.structCls.getOffsets()[field] as number;
+    return (this as unknown as typeof SharedPrimitive).from.call(
+      this,
+      raw.buffer as SharedArrayBuffer,
+      raw.byteOffset + offset,
+    ) as T;
+  }
+
+  protected get view(): Int32Array {
+    let view = views.get(this);
+    if (!view) {
+      view = new Int32Array(this.buffer, this.byteOffset, 1);
+      views.set(this, view);
+    }
+    return view;
+  }
+}
+
+/**
+ * Mutual exclusion lock shared between threads. It is not reentrant, and
+ * any thread may unlock it.
+ */
+export class SharedMutex extends SharedPrimitive {
+  // 0: unlocked, 1: locked, 2: locked with waiters
+  constructor() {
+    super(0);
+  }
+
+  tryLock(): boolean {
+    return Atomics.compareExchange(this.view, 0, 0, 1) === 0;
+  }
+
+  /**
+   * Block the thread until the lock is acquired.
+   */
+  lock(): void {
+    const view = this.view;
+    let state = Atomics.compareExchange(view, 0, 0, 1);
+    if (state === 0) return;
+    if (state !== 2) state = Atomics.exchange(view, 0, 2);
+    while (state !== 0) {
+      Atomics.wait(view, 0, 2);
+      state = Atomics.exchange(view, 0, 2);
+    }
+  }
+
+  /**
+   * Wait for the lock without blocking the event loop.
+   */
+  async lockAsync(): Promise<void> {
+    const view = this.view;
+    let state = Atomics.compareExchange(view, 0, 0, 1);
+    if (state === 0) return;
+    if (state !== 2) state = Atomics.exchange(view, 0, 2);
+    while (state !== 0) {
+      await atomicsWaitAsync(view, 0, 2);
+      state = Atomics.exchange(view, 0, 2);
+    }
+  }
+
+  unlock(): void {
+    const view = this.view;
+    if (Atomics.load(view, 0) === 0) {
+      throw new Error('SharedMutex is not locked');
+    }
+    if (Atomics.sub(view, 0, 1) !== 1) {
+      Atomics.store(view, 0, 0);
+      Atomics.notify(view, 0, 1);
+    }
+  }
+
+  isLocked(): boolean {
+    return Atomics.load(this.view, 0) !== 0;
+  }
+
+  /**
+   * Run `fn` while holding the lock.
+   */
+  async runExclusive<R>(fn: () => R | Promise<R>): Promise<R> {
+    await this.lockAsync();
+    try {
+      return await fn();
+    } finally {
+      this.unlock();
+    }
+  }
+}
+
+/**
+ * Counting semaphore shared between threads.
+ */
+export class SharedSemaphore extends SharedPrimitive {
+  constructor(permits: number) {
+    super(permits);
+  }
+
+  tryAcquire(): boolean {
+    const view = this.view;
+    for (;;) {
+      const permits = Atomics.load(view, 0);
+      if (permits <= 0) return false;
+      if (Atomics.compareExchange(view, 0, permits, permits - 1) === permits) {
+        return true;
+      }
+    }
+  }
+
+  /**
+   * Block the thread until a permit is acquired.
+   */
+  acquire(): void {
+    while (!this.tryAcquire()) {
+      Atomics.wait(this.view, 0, 0);
+    }
+  }
+
+  /**
+   * Wait for a permit without blocking the event loop.
+   */
+  async acquireAsync(): Promise<void> {
+    while (!this.tryAcquire()) {
+      await atomicsWaitAsync(this.view, 0, 0);
+    }
+  }
+
+  release(count = 1): void {
+    Atomics.add(this.view, 0, count);
+    Atomics.notify(this.view, 0, count);
+  }
+
+  availablePermits(): number {
+    return Atomics.load(this.view, 0);
+  }
+
+  /**
+   * Run `fn` while holding a permit.
+   */
+  async runExclusive<R>(fn: () => R | Promise<R>): Promise<R> {
+    await this.acquireAsync();
+    try {
+      return await fn();
+    } finally {
+      this.release();
+    }
+  }
+}
+
+/**
+ * Condition variable shared between threads, used with a SharedMutex.
+ * Waiters may wake up spuriously, so check the condition in a loop.
+ */
+export class SharedCondition extends SharedPrimitive {
+  // Incremented by every notification
+  constructor() {
+    super(0);
+  }
+
+  /**
+   * Unlock `mutex`, block until notified or `timeout` milliseconds elapse,
+   * then lock `mutex` again.
+   * @returns false if the wait timed out
+   */
+  wait(mutex: SharedMutex, timeout?: number): boolean {
+    const sequence = Atomics.load(this.view, 0);
+    mutex.unlock();
+    const result = Atomics.wait(this.view, 0, sequence, toTimeout(timeout));
+    mutex.lock();
+    return result !== 'timed-out';
+  }
+
+  /**
+   * Same as wait() without blocking the event loop.
+   */
+  async waitAsync(mutex: SharedMutex, timeout?: number): Promise<boolean> {
+    const sequence = Atomics.load(this.view, 0);
+    mutex.unlock();
+    const result = await atomicsWaitAsync(
+      this.view,
+      0,
+      sequence,
+      toTimeout(timeout),
+    );
+    await mutex.lockAsync();
+    return result !== 'timed-out';
+  }
+
+  notify(count = 1): void {
+    Atomics.add(this.view, 0, 1);
+    Atomics.notify(this.view, 0, count);
+  }
+
+  notifyAll(): void {
+    this.notify(Infinity);
+  }
+}
+
+/**
+ * Run the method while holding the SharedMutex stored in the typed-struct
+ * field `field` of the instance. Combined with @WorkerMethod(), the lock is
+ * taken in the worker, and the main thread can take the same lock with
+ * `SharedMutex.fromStruct(instance, field)`.
+ */
+export const Synchronized =
+  (field: string): MethodDecorator =>
+  (target, propertyKey, descriptor: PropertyDescriptor) => {
+    const method = descriptor.value;
+    if (typeof method !== 'function') {
+      throw new TypeError(
+        `@Synchronized() can only decorate methods: ${String(propertyKey)}`,
+      );
+    }
+    descriptor.value = function (this: object, ...args: unknown[]) {
+      return SharedMutex.fromStruct(this, field).runExclusive(() =>
+        method.apply(this, args),
+      );
+    };
+  };
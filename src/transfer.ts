@@ -0,0 +1,27 @@
+import type { TransferListItem } from 'node:worker_threads';
+
+const TRANSFER = Symbol('yuzuthread.transfer');
+
+type TransferWrapper = {
+  [TRANSFER]: true;
+  value: unknown;
+  transferList: TransferListItem[];
+};
+
+export const isTransferWrapper = (value: unknown): value is TransferWrapper =>
+  typeof value === 'object' && value !== null && TRANSFER in value;
+
+/**
+ * Move `value` to the other thread instead of copying it, as if it were
+ * marked with @Transfer(). Buffers, ArrayBuffers, typed arrays and
+ * MessagePorts reached by the transport are added to the transfer list,
+ * as well as every item of `transferList`.
+ * The moved memory is detached in the sending thread afterwards.
+ *
+ * @returns A wrapper typed as `value`, to be passed as an argument or returned
+ */
+export const transfer = <T>(
+  value: T,
+  transferList: TransferListItem[] = [],
+): T =>
+  ({ [TRANSFER]: true, value, transferList }) satisfies TransferWrapper as T;
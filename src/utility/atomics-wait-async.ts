@@ -0,0 +1,29 @@
+export type WaitResult = 'ok' | 'not-equal' | 'timed-out';
+
+// Atomics.waitAsync is available since Node 16 but missing from the es2021 lib
+const waitAsync = (
+  Atomics as unknown as {
+    waitAsync: (
+      view: Int32Array,
+      index: number,
+      value: number,
+      timeout?: number,
+    ) =>
+      | { async: false; value: WaitResult }
+      | { async: true; value: Promise<WaitResult> };
+  }
+).waitAsync;
+
+/**
+ * Wait until `view[index]` is notified while it holds `value`, without
+ * blocking the thread
+ */
+export const atomicsWaitAsync = async (
+  view: Int32Array,
+  index: number,
+  value: number,
+  timeout?: number,
+): Promise<WaitResult> => {
+  const result = waitAsync(view, index, value, timeout);
+  return result.async ? await result.value : result.value;
+};
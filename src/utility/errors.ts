@@ -0,0 +1,48 @@
+import { ResourceLimits } from 'node:worker_threads';
+import { TransportError } from './transport-error';
+
+/**
+ * Rejection reason for worker calls cancelled through an AbortSignal.
+ * `name` is `'AbortError'` to match the platform convention.
+ */
+@TransportError()
+export class WorkerAbortError extends Error {
+  readonly reason: unknown;
+
+  constructor(method: string, reason?: unknown) {
+    super(`Worker call aborted: ${method}`);
+    this.name = 'AbortError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Rejection reason for worker methods and callbacks that exceed their timeout.
+ */
+@TransportError()
+export class WorkerTimeoutError extends Error {
+  constructor(
+    readonly className: string,
+    readonly method: string,
+    readonly timeout: number,
+  ) {
+    super(`${className}.${method} timed out after ${timeout}ms`);
+    this.name = 'WorkerTimeoutError';
+  }
+}
+
+/**
+ * Rejection reason for calls in flight when the worker thread is stopped
+ * for exceeding its `resourceLimits` (`ERR_WORKER_OUT_OF_MEMORY`).
+ */
+@TransportError()
+export class WorkerResourceLimitError extends Error {
+  constructor(
+    readonly className: string,
+    readonly resourceLimits: ResourceLimits,
+    readonly cause?: unknown,
+  ) {
+    super(`${className} worker ran out of memory`);
+    this.name = 'WorkerResourceLimitError';
+  }
+}
@@ -0,0 +1,81 @@
+import { AnyClass } from 'nfkit';
+import { EventEmitter } from 'node:events';
+import {
+  MessageChannel,
+  MessagePort,
+  receiveMessageOnPort,
+  TransferListItem,
+} from 'node:worker_threads';
+import { startInlineWorkerRuntime, WorkerDataPayload } from '../worker';
+
+let inlineByDefault = false;
+
+/**
+ * Run the worker side of every worker created from now on in the calling
+ * thread, unless `inline: false` is passed to initWorkerWithOptions() or
+ * initWorkerPool(). Meant for unit tests, e.g. in a Jest setup file.
+ */
+export const setInlineWorkers = (enabled: boolean): void => {
+  inlineByDefault = enabled;
+};
+
+export const isInlineByDefault = (): boolean => inlineByDefault;
+
+/**
+ * Stand-in for a Worker that runs the worker side of a class in this thread.
+ * workerData and every message still go through a MessagePort, so they are
+ * cloned and transferred exactly as between threads.
+ */
+export class InlineWorker extends EventEmitter {
+  private hostPort: MessagePort;
+  private workerPort: MessagePort;
+  private exitCode?: number;
+  private exited = false;
+
+  constructor(cls: AnyClass, workerData: WorkerDataPayload) {
+    super();
+    const { port1, port2 } = new MessageChannel();
+    this.hostPort = port1;
+    this.workerPort = port2;
+    port1.postMessage(workerData);
+    const data = receiveMessageOnPort(port2)!.message as WorkerDataPayload;
+
+    port1.on('message', (message) => this.emit('message', message));
+    port1.on('messageerror', (error) => this.emit('messageerror', error));
+    port1.on('close', () => {
+      this.exited = true;
+      this.emit('exit', this.exitCode ?? 1);
+    });
+
+    // Start on a later turn like a thread, once the host listens for events
+    setImmediate(() => {
+      if (this.exitCode !== undefined) return;
+      this.emit('online');
+      startInlineWorkerRuntime(cls, data, {
+        port: port2,
+        exit: (code) => this.exit(code),
+      });
+    });
+  }
+
+  postMessage(value: unknown, transferList?: TransferListItem[]) {
+    this.hostPort.postMessage(value, transferList);
+  }
+
+  /**
+   * Disconnect the worker side. Work it has already started keeps running,
+   * since it shares the thread, but its messages are dropped.
+   */
+  terminate(): Promise<number> {
+    if (this.exited) return Promise.resolve(this.exitCode ?? 1);
+    const exited = new Promise<number>((resolve) => this.once('exit', resolve));
+    this.exit(1);
+    return exited;
+  }
+
+  private exit(code: number): void {
+    if (this.exitCode !== undefined) return;
+    this.exitCode = code;
+    this.workerPort.close();
+  }
+}
@@ -1,13 +1,31 @@
 import { MetadataSetter, Reflector } from 'typed-reflector';
 import type { Worker } from 'node:worker_threads';
 
-export type WorkerEventName = Extract<Parameters<Worker['on']>[0], string>;
+export type WorkerEventName =
+  Extract<Parameters<Worker['on']>[0], string> | 'restart' | 'unresponsive';
+
+export type WorkerMethodOptions = {
+  timeout?: number;
+  /**
+   * Calls still in flight when the worker crashes are sent again to the
+   * restarted worker instead of being rejected.
+   */
+  idempotent?: boolean;
+};
+
+export type WorkerCallbackOptions = {
+  timeout?: number;
+};
 
 export interface MetadataMap {
   workerMethod: boolean;
+  workerMethodOptions: WorkerMethodOptions;
   workerCallback: boolean;
+  workerCallbackOptions: WorkerCallbackOptions;
   workerInit: boolean;
   workerFinalize: boolean;
+  workerShutdown: boolean;
+  workerEmitter: boolean;
 }
 
 export interface MetadataArrayMap {
@@ -17,6 +35,10 @@ export interface MetadataArrayMap {
   workerEvent: WorkerEventName;
   workerInitKeys: string;
   workerFinalizeKeys: string;
+  workerShutdownKeys: string;
+  workerEmitterKeys: string;
+  workerAbortSignalKeys: string;
+  workerAbortSignalParams: boolean;
 }
 
 export const Metadata = new MetadataSetter<MetadataMap, MetadataArrayMap>();
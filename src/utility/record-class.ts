@@ -0,0 +1,34 @@
+import { AnyClass } from 'nfkit';
+import { getTypedStructInfo } from './type-helpers';
+
+// Record classes of the container classes created by `of()`, such as
+// SharedRingBuffer.of()
+const recordClasses = new WeakMap<object, AnyClass>();
+
+/**
+ * Remember the typed-struct record class of a container class.
+ */
+export const setRecordClass = (
+  containerCls: object,
+  recordClass: AnyClass,
+): void => {
+  recordClasses.set(containerCls, recordClass);
+};
+
+/**
+ * Record class of a container class, or of the closest parent class that has
+ * one, so that subclasses of `of()` classes keep their records.
+ */
+export const findRecordClass = (ctor: object): AnyClass | undefined => {
+  for (let current = ctor; current; current = Object.getPrototypeOf(current)) {
+    const recordClass = recordClasses.get(current);
+    if (recordClass) return recordClass;
+  }
+  return undefined;
+};
+
+/**
+ * Bytes used by one record of a typed-struct record class.
+ */
+export const getRecordSize = (recordClass: AnyClass): number =>
+  getTypedStructInfo(recordClass)!.structCls.baseSize;
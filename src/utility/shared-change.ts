@@ -0,0 +1,150 @@
+import { atomicsWaitAsync } from './atomics-wait-async';
+
+/**
+ * Non-method fields of T, the candidates for onSharedChange()
+ */
+export type SharedChangeField<T> = {
+  [K in keyof T]: T[K] extends (...args: any[]) => any ? never : K;
+}[keyof T] &
+  string;
+
+export type SharedChangeApi<T> = {
+  waitForChange: (timeout?: number) => Promise<boolean>;
+  onSharedChange: <K extends SharedChangeField<T>>(
+    fields: K[],
+    handler: (changed: K[]) => void,
+  ) => () => void;
+};
+
+// Change counter of every instance with `sharedChanges` in this thread
+const changeCounters = new WeakMap<object, Int32Array>();
+
+export const registerSharedChangeCounter = (
+  instance: object,
+  counter: SharedArrayBuffer,
+): void => {
+  changeCounters.set(instance, new Int32Array(counter));
+};
+
+/**
+ * Count a change to the shared typed-struct memory of a worker instance and
+ * wake up the threads waiting for one. Changes are counted after every
+ * @WorkerMethod() call already; call this to report changes made in
+ * between, e.g. from a timer in the worker.
+ */
+export const notifySharedChange = (instance: object): void => {
+  const counter = changeCounters.get(instance);
+  if (!counter) {
+    throw new TypeError(
+      'notifySharedChange() requires a worker instance defined with @DefineWorker({ sharedChanges: true })',
+    );
+  }
+  Atomics.add(counter, 0, 1);
+  Atomics.notify(counter, 0);
+};
+
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (ArrayBuffer.isView(a) && ArrayBuffer.isView(b)) {
+    return (
+      Buffer.compare(
+        Buffer.from(a.buffer, a.byteOffset, a.byteLength),
+        Buffer.from(b.buffer, b.byteOffset, b.byteLength),
+      ) === 0
+    );
+  }
+  return Object.is(a, b);
+};
+
+const snapshotValue = (value: unknown): unknown =>
+  ArrayBuffer.isView(value)
+    ? Buffer.from(Buffer.from(value.buffer, value.byteOffset, value.byteLength))
+    : value;
+
+/**
+ * Expose `waitForChange()` and `onSharedChange()` on the main-thread
+ * instance.
+ * @returns A function that ends every wait and subscription
+ */
+export const defineSharedChangeApi = (
+  instance: object,
+  counter: SharedArrayBuffer | undefined,
+): (() => void) => {
+  const view = counter && new Int32Array(counter);
+  if (counter) registerSharedChangeCounter(instance, counter);
+  let closed = false;
+
+  const requireView = (): Int32Array => {
+    if (!view) {
+      throw new TypeError(
+        'Shared change notifications require @DefineWorker({ sharedChanges: true }) on a typed-struct worker class',
+      );
+    }
+    return view;
+  };
+
+  const waitForChange = async (timeout?: number): Promise<boolean> => {
+    const counterView = requireView();
+    if (closed) return false;
+    const generation = Atomics.load(counterView, 0);
+    const outcome = await atomicsWaitAsync(
+      counterView,
+      0,
+      generation,
+      timeout === undefined ? Infinity : Math.max(0, timeout),
+    );
+    return outcome !== 'timed-out' && !closed;
+  };
+
+  const onSharedChange = (
+    fields: string[],
+    handler: (changed: string[]) => void,
+  ): (() => void) => {
+    const counterView = requireView();
+    const read = () =>
+      fields.map((field) =>
+        snapshotValue((instance as Record<string, unknown>)[field]),
+      );
+    let previous = read();
+    let active = true;
+
+    void (async () => {
+      let generation = Atomics.load(counterView, 0);
+      while (active && !closed) {
+        await atomicsWaitAsync(counterView, 0, generation);
+        if (!active || closed) return;
+        generation = Atomics.load(counterView, 0);
+        const current = read();
+        const changed = fields.filter(
+          (_, index) => !sameValue(current[index], previous[index]),
+        );
+        previous = current;
+        if (fields.length > 0 && changed.length === 0) continue;
+        try {
+          handler(changed);
+        } catch (error) {
+          console.error('Error in onSharedChange() handler:', error);
+        }
+      }
+    })();
+
+    return () => {
+      active = false;
+      // Wake the loop up so that it ends
+      Atomics.notify(counterView, 0);
+    };
+  };
+
+  (['waitForChange', 'onSharedChange'] as const).forEach((key) => {
+    Object.defineProperty(instance, key, {
+      configurable: true,
+      enumerable: false,
+      writable: false,
+      value: key === 'waitForChange' ? waitForChange : onSharedChange,
+    });
+  });
+
+  return () => {
+    closed = true;
+    if (view) Atomics.notify(view, 0);
+  };
+};
@@ -10,7 +10,9 @@ const resolveTransporterClass = (
   }
 
   const factoryResult = transporter.factory();
-  return Array.isArray(factoryResult) ? factoryResult[0] : factoryResult;
+  if (!Array.isArray(factoryResult)) return factoryResult;
+  // Contents of Map, Set, record and tuple containers are not converted
+  return factoryResult.length === 1 ? (factoryResult[0] as AnyClass) : null;
 };
 
 export const shouldProcessSharedField = (proto: any, key: string): boolean => {
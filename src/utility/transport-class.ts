@@ -0,0 +1,55 @@
+import { AnyClass } from 'nfkit';
+
+const transportClasses = new Map<string, AnyClass>();
+const transportClassIds = new Map<AnyClass, string>();
+
+/**
+ * Register a class so that its instances keep their class when transported:
+ * values declared with a base class or a union are rebuilt with their
+ * runtime class, and instances in untyped values (`Object`, `any`,
+ * interfaces, plain objects and arrays) are detected by their constructor.
+ * The class must be registered in both threads, which is the case when it
+ * is registered in or imported by the worker file. `id` defaults to the
+ * class name.
+ */
+export const registerTransportClass = (cls: AnyClass, id?: string): void => {
+  const classId = id ?? cls.name;
+  const existing = transportClasses.get(classId);
+  if (existing && existing !== cls) {
+    throw new TypeError(`Transport class id is already registered: ${classId}`);
+  }
+  transportClasses.set(classId, cls);
+  transportClassIds.set(cls, classId);
+};
+
+/**
+ * Decorator form of registerTransportClass()
+ */
+export const TransportClass =
+  (id?: string): ClassDecorator =>
+  (target) =>
+    registerTransportClass(target as unknown as AnyClass, id);
+
+export const getTransportClass = (
+  id: string | undefined,
+): AnyClass | undefined =>
+  id === undefined ? undefined : transportClasses.get(id);
+
+/**
+ * Id registered with @TransportClass() for exactly this class
+ */
+export const getRegisteredTransportClassId = (
+  cls: unknown,
+): string | undefined => transportClassIds.get(cls as AnyClass);
+
+/**
+ * Whether any class is registered, so that untyped values may hold instances
+ * to detect
+ */
+export const hasTransportClasses = (): boolean => transportClassIds.size > 0;
+
+/**
+ * Id recorded in `__className`: the registered id, or the class name
+ */
+export const getTransportClassId = (cls: AnyClass): string =>
+  getRegisteredTransportClassId(cls) ?? cls.name;
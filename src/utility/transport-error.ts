@@ -0,0 +1,86 @@
+import { AnyClass } from 'nfkit';
+
+const errorClasses = new Map<string, AnyClass>();
+const errorClassIds = new Map<AnyClass, string>();
+
+const registerErrorClass = (cls: AnyClass, id: string): void => {
+  const existing = errorClasses.get(id);
+  if (existing && existing !== cls) {
+    throw new TypeError(`Error class id is already registered: ${id}`);
+  }
+  errorClasses.set(id, cls);
+  errorClassIds.set(cls, id);
+};
+
+[
+  Error,
+  EvalError,
+  RangeError,
+  ReferenceError,
+  SyntaxError,
+  TypeError,
+  URIError,
+  AggregateError,
+].forEach((cls) => registerErrorClass(cls, cls.name));
+
+/**
+ * Register an error class so that errors crossing the worker boundary are
+ * rebuilt with its prototype. The class must be registered in both threads,
+ * which is the case when it is defined in or imported by the worker file.
+ * `id` defaults to the class name.
+ */
+export const TransportError =
+  (id?: string): ClassDecorator =>
+  (target) => {
+    const cls = target as unknown as AnyClass;
+    registerErrorClass(cls, id ?? cls.name);
+  };
+
+/**
+ * Find the id of the closest registered class in the error's prototype chain.
+ */
+export const getErrorClassId = (error: Error): string | undefined => {
+  for (
+    let proto = Object.getPrototypeOf(error);
+    proto;
+    proto = Object.getPrototypeOf(proto)
+  ) {
+    if (!Object.prototype.hasOwnProperty.call(proto, 'constructor')) continue;
+    const id = errorClassIds.get(proto.constructor);
+    if (id) return id;
+  }
+  return undefined;
+};
+
+export const getErrorClass = (id: string | undefined): AnyClass =>
+  (id && errorClasses.get(id)) || Error;
+
+/**
+ * Capture the stack of the code issuing a cross-thread call, so that a
+ * failure can point at both sides of the boundary.
+ */
+export const captureCallSite = (): { stack?: string } => {
+  const site: { stack?: string } = {};
+  Error.captureStackTrace(site, captureCallSite);
+  return site;
+};
+
+/**
+ * Append the frames of a captured call site to an error received from the
+ * other thread.
+ */
+export const appendCallSite = <E extends Error>(
+  error: E,
+  site: { stack?: string },
+  label: string,
+): E => {
+  const frames = site.stack?.split('\n').slice(1).join('\n');
+  if (!frames) return error;
+  Object.defineProperty(error, 'stack', {
+    configurable: true,
+    enumerable: false,
+    writable: true,
+    value: `${error.stack ?? `${error.name}: ${error.message}`}\n    --- ${label} ---\n${frames}`,
+  });
+  return error;
+};
@@ -4,16 +4,42 @@ import { safeScanTypedStructClass } from './typed-struct-registry';
 
 export type Awaitable<T> = T | Promise<T>;
 
-export type TransportTypeFactory = () => AnyClass | [AnyClass];
+/**
+ * A class, a union of classes such as `[Circle, Square]`, or a container
+ * whose contents are transported with their own descriptors: `[Type]` for
+ * arrays, `[Map, KeyType, ValueType]`, `[Set, ValueType]`,
+ * `[Object, ValueType]` for records and `[Array, ...ItemTypes]` for tuples.
+ */
+export type TransportTypeDescriptor =
+  | AnyClass
+  | [TransportTypeDescriptor]
+  | [AnyClass, AnyClass, ...AnyClass[]]
+  | [MapConstructor, TransportTypeDescriptor, TransportTypeDescriptor]
+  | [SetConstructor, TransportTypeDescriptor]
+  | [ObjectConstructor, TransportTypeDescriptor]
+  | [ArrayConstructor, ...TransportTypeDescriptor[]];
+
+export type TransportTypeFactory = () => TransportTypeDescriptor;
 
 export type TransportEncoder<T = any, U = any> = {
   encode: (obj: T) => Awaitable<U>;
   decode: (encoded: U) => Awaitable<T>;
 };
 
+export type TransportTypeOptions = {
+  /**
+   * Send the value as an object graph: an object reached twice is encoded
+   * once and referenced afterwards, so shared and circular references
+   * survive the transport.
+   */
+  preserveRefs?: boolean;
+};
+
 export type TransporterInfo =
-  | { type: 'class'; factory: TransportTypeFactory }
-  | { type: 'encoder'; encoder: TransportEncoder };
+  | { type: 'class'; factory: TransportTypeFactory; preserveRefs?: boolean }
+  | { type: 'encoder'; encoder: TransportEncoder }
+  | { type: 'callback' }
+  | { type: 'remote' };
 
 export type TransporterData =
   | { kind: 'return'; info: TransporterInfo }
@@ -21,11 +47,13 @@ export type TransporterData =
 
 export interface TransportMetadataMap {
   transporter: TransporterData;
+  transferReturn: boolean;
 }
 
 export interface TransportMetadataArrayMap {
   transporterKeys: string | symbol;
   transporterParams: TransporterInfo;
+  transferParams: boolean;
 }
 
 export const TransportMetadata = new MetadataSetter<
@@ -63,10 +91,12 @@ const registerParamTransporter = (
 
 /**
  * Marks transport type for method return value, parameter, or property.
- * @param factory Optional factory function that returns the class or [class] for array
+ * @param factory Optional factory function that returns the class, [class] for array, or a container descriptor
+ * @param options `preserveRefs` keeps shared and circular references
  */
 export const TransportType = (
   factory?: TransportTypeFactory,
+  options: TransportTypeOptions = {},
 ): PropertyDecorator & MethodDecorator & ParameterDecorator => {
   if (!factory) {
     // Try to get factory from design:type metadata
@@ -125,6 +155,7 @@ export const TransportType = (
         const info: TransporterInfo = {
           type: 'class',
           factory: resolvedFactory,
+          preserveRefs: options.preserveRefs,
         };
 
         if (typeof parameterIndexOrDescriptor === 'number') {
@@ -167,11 +198,13 @@ export const TransportType = (
       throw new Error('@TransportType cannot be used as a class decorator');
     }
 
-    // Scan the class from factory
+    // Scan the classes from factory, including those inside containers
     try {
       const result = factory();
-      const cls = Array.isArray(result) ? result[0] : result;
-      safeScanTypedStructClass(cls);
+      const classes = Array.isArray(result)
+        ? (result as unknown[]).flat(Infinity)
+        : [result];
+      classes.forEach((cls) => safeScanTypedStructClass(cls));
     } catch {
       // Ignore errors (class might not be defined yet)
     }
@@ -223,7 +256,11 @@ export const TransportType = (
       // Ignore errors
     }
 
-    const info: TransporterInfo = { type: 'class', factory };
+    const info: TransporterInfo = {
+      type: 'class',
+      factory,
+      preserveRefs: options.preserveRefs,
+    };
 
     if (typeof parameterIndexOrDescriptor === 'number') {
       // Parameter decorator
@@ -303,6 +340,97 @@ export const TransportEncoder = <T = any, U = any>(
   }) as any;
 };
 
+/**
+ * Marks a @WorkerMethod() parameter that accepts a function.
+ * The worker receives a function that runs the original on the main thread
+ * and returns a Promise of its result.
+ */
+export const TransportCallback = (): ParameterDecorator => {
+  const info: TransporterInfo = { type: 'callback' };
+  return (target, propertyKey, parameterIndex) =>
+    registerParamTransporter(target, propertyKey, parameterIndex, info);
+};
+
+/**
+ * Moves a parameter or return value to the other thread instead of copying it.
+ * Buffers, ArrayBuffers, typed arrays and MessagePorts reached by the
+ * transport are added to the transfer list and detached in the sending thread.
+ * Can be combined with @TransportType().
+ */
+export const Transfer = (): MethodDecorator & ParameterDecorator =>
+  ((
+    target: any,
+    propertyKey?: string | symbol,
+    parameterIndexOrDescriptor?: number | PropertyDescriptor,
+  ) => {
+    if (typeof parameterIndexOrDescriptor === 'number') {
+      TransportMetadata.param('transferParams', true, 'transporterKeys')(
+        target,
+        propertyKey as string | undefined,
+        parameterIndexOrDescriptor,
+      );
+    } else {
+      TransportMetadata.set(
+        'transferReturn',
+        true,
+        'transporterKeys',
+      )(target, propertyKey as string);
+    }
+  }) as any;
+
+const remoteClasses = new WeakSet<object>();
+
+/**
+ * Keeps values in the worker and hands the main thread a proxy instead.
+ * On a @WorkerMethod(), applies to its return value; on a class, applies to
+ * every instance of the class returned from the worker.
+ */
+export const TransportRemote = (): ClassDecorator & MethodDecorator =>
+  ((target: any, propertyKey?: string | symbol) => {
+    if (propertyKey === undefined) {
+      remoteClasses.add(target);
+      return;
+    }
+    const data: TransporterData = {
+      kind: 'return',
+      info: { type: 'remote' },
+    };
+    TransportMetadata.set(
+      'transporter',
+      data,
+      'transporterKeys',
+    )(target, propertyKey as string);
+  }) as any;
+
+/**
+ * Main-thread proxy for a @TransportRemote() object: every method returns a
+ * Promise, and `release()` lets the worker drop the object.
+ */
+export type RemoteObject<T> = {
+  [
+    K in keyof T as T[K] extends (...args: any[]) => any ? K : never
+  ]: T[K] extends (...args: infer A) => infer R
+    ? (...args: A) => Promise<Awaited<R>>
+    : never;
+} & {
+  release: () => void;
+};
+
+/**
+ * Whether a value is an instance of a class marked with @TransportRemote()
+ */
+export const isTransportRemoteInstance = (value: unknown): boolean => {
+  if (!value || typeof value !== 'object') return false;
+  for (
+    let proto = Object.getPrototypeOf(value);
+    proto && proto !== Object.prototype;
+    proto = Object.getPrototypeOf(proto)
+  ) {
+    if (remoteClasses.has(proto.constructor)) return true;
+  }
+  return false;
+};
+
 /**
  * Get transporter info for method return type
  */
@@ -328,6 +456,27 @@ export const getParamTransporters = (
   );
 };
 
+/**
+ * Get the indexes of method parameters marked with @Transfer()
+ */
+export const getTransferParams = (
+  target: any,
+  propertyKey: string,
+): Set<number> => {
+  const params = transportReflector.getArray(
+    'transferParams',
+    target,
+    propertyKey,
+  );
+  return new Set(params.flatMap((flag, index) => (flag ? [index] : [])));
+};
+
+/**
+ * Whether a method's return value is marked with @Transfer()
+ */
+export const isTransferReturn = (target: any, propertyKey: string): boolean =>
+  !!transportReflector.get('transferReturn', target, propertyKey);
+
 export const getCtorParamTransporters = (
   target: any,
 ): Map<number, TransporterInfo> => {
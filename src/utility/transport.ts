@@ -1,10 +1,16 @@
 import { AnyClass } from 'nfkit';
+import { MessagePort, TransferListItem } from 'node:worker_threads';
+import { types } from 'node:util';
 import {
   TransporterInfo,
+  TransportTypeDescriptor,
+  isTransportRemoteInstance,
   getReturnTransporter,
   getParamTransporters,
   getCtorParamTransporters,
   getPropertyTransporter,
+  getTransferParams,
+  isTransferReturn,
 } from './transport-metadata';
 import { AnyStructConstructor } from './types';
 import { createTypedStructInstance } from './typed-struct-registry';
@@ -16,10 +22,400 @@ import {
   getTypedStructInfo,
 } from './type-helpers';
 import { isSharedArrayBuffer } from './is-shared-array-buffer';
+import { getErrorClass, getErrorClassId } from './transport-error';
+import { isTransferWrapper } from '../transfer';
+import { getPeerConnector } from './worker-peer';
+import { SharedStructArray } from '../shared-struct-array';
+import {
+  getRegisteredTransportClassId,
+  getTransportClass,
+  getTransportClassId,
+  hasTransportClasses,
+} from './transport-class';
+
+/**
+ * Hooks provided by a worker connection for values that cannot be copied
+ * and are replaced by handles instead.
+ */
+export type TransportHandles = {
+  registerCallback?: (fn: (...args: any[]) => unknown) => number;
+  resolveCallback?: (id: number) => (...args: any[]) => Promise<unknown>;
+  registerRemote?: (value: object) => number;
+  resolveRemote?: (id: number, methods: string[]) => object;
+  // Turns the port of a worker instance passed as an argument into a proxy
+  resolvePeer?: (classId: string, port: MessagePort) => object;
+  // Collects what the message moves rather than copies; see @Transfer()
+  transferList?: TransferListItem[];
+  // Called with every SharedStructArray in the value, whose later grow()
+  // has to reach the other thread
+  trackStructArray?: (array: SharedStructArray<unknown>) => void;
+};
+
+/**
+ * Method names a @TransportRemote() proxy exposes: every function on the
+ * value and its prototype chain, except those of Object.prototype.
+ */
+const getRemoteMethods = (value: object): string[] => {
+  const methods = new Set<string>();
+  for (
+    let target: any = value;
+    target && target !== Object.prototype;
+    target = Object.getPrototypeOf(target)
+  ) {
+    for (const key of Object.getOwnPropertyNames(target)) {
+      if (key === 'constructor') continue;
+      const descriptor = Object.getOwnPropertyDescriptor(target, key);
+      if (typeof descriptor?.value === 'function') methods.add(key);
+    }
+  }
+  return [...methods];
+};
 
 type TransportContext = {
   path: string[];
   visited?: WeakSet<object>;
+  // Set in reference-preserving mode: ids of the objects encoded so far,
+  // or the objects decoded so far by id
+  refs?: Map<object, number>;
+  decodedRefs?: Map<number, object>;
+  // Untyped plain objects encoded so far
+  plainObjects?: WeakSet<object>;
+  handles?: TransportHandles;
+  // Inside a @Transfer() value
+  transfer?: boolean;
+};
+
+const addTransfer = (
+  context: TransportContext,
+  item: TransferListItem,
+): void => {
+  const transferList = context.handles?.transferList;
+  if (transferList && !transferList.includes(item)) transferList.push(item);
+};
+
+export type EncodedError = {
+  message: string;
+  name?: string;
+  stack?: string;
+  // Id of the closest class registered with @TransportError()
+  errorClass?: string;
+  properties?: Record<string, unknown>;
+  cause?: unknown;
+  errors?: unknown;
+};
+
+const hasOwn = (target: object, key: string): boolean =>
+  Object.prototype.hasOwnProperty.call(target, key);
+
+let preserveRefsByDefault = false;
+
+/**
+ * Preserve shared and circular references in every @TransportType() value
+ * encoded in this thread, as with `{ preserveRefs: true }`. Decoding needs
+ * no setting, so enable it in the threads that send object graphs.
+ */
+export const setTransportPreserveRefs = (enabled: boolean): void => {
+  preserveRefsByDefault = enabled;
+};
+
+const CONTAINER_KINDS = new Set<unknown>([Map, Set, Object, Array]);
+
+/**
+ * Classes of a union descriptor such as `[Circle, Square]`, or null
+ */
+const getUnionClasses = (
+  descriptor: TransportTypeDescriptor,
+): AnyClass[] | null =>
+  Array.isArray(descriptor) &&
+  descriptor.length > 1 &&
+  !CONTAINER_KINDS.has(descriptor[0]) &&
+  descriptor.every((item) => typeof item === 'function')
+    ? (descriptor as AnyClass[])
+    : null;
+
+const describeClasses = (classes: AnyClass[]): string =>
+  classes.map((cls) => cls.name).join(' | ');
+
+/**
+ * Class to encode an object with: its runtime class when it is declared or
+ * registered with @TransportClass(), otherwise the declared class it
+ * extends. Subclasses of a registered class must be registered as well.
+ */
+const resolveEncodeClass = (
+  value: object,
+  declared: AnyClass[],
+  context: TransportContext,
+): AnyClass => {
+  const runtime = value.constructor as AnyClass | undefined;
+  if (runtime && declared.includes(runtime)) return runtime;
+  const base = declared.find((cls) => value instanceof cls);
+  if (base && runtime) {
+    if (getRegisteredTransportClassId(runtime)) return runtime;
+    if (declared.length === 1 && !getRegisteredTransportClassId(base)) {
+      return base;
+    }
+    throw new TypeError(
+      `${context.path.join('.')}: Class ${runtime.name} is not registered with @TransportClass()`,
+    );
+  }
+  if (declared.length === 1) return declared[0];
+  throw new TypeError(
+    `${context.path.join('.')}: Expected ${describeClasses(declared)}, got ${runtime?.name ?? typeof value}`,
+  );
+};
+
+/**
+ * Class recorded in `__className` by the sender, checked against the
+ * declared classes
+ */
+const resolveDecodeClass = (
+  id: string | undefined,
+  declared: AnyClass[],
+  context: TransportContext,
+): AnyClass => {
+  const registered = getTransportClass(id);
+  if (
+    registered &&
+    declared.some(
+      (cls) => registered === cls || registered.prototype instanceof cls,
+    )
+  ) {
+    return registered;
+  }
+  const member = declared.find((cls) => getTransportClassId(cls) === id);
+  if (member) return member;
+  if (declared.length === 1 && !getRegisteredTransportClassId(declared[0])) {
+    return declared[0];
+  }
+  throw new TypeError(
+    `${context.path.join('.')}: Class ${id} is not registered with @TransportClass() as ${describeClasses(declared)}`,
+  );
+};
+
+/**
+ * Design types that say nothing about the value: `Object` for `any` and
+ * interfaces, and `Promise` for the return type of async methods
+ */
+const isUntypedDesignType = (designType: unknown): boolean =>
+  !designType || designType === Object || designType === Promise;
+
+/**
+ * Whether the plain objects and arrays of an untyped value hold an instance
+ * of a registered class. Searched synchronously, so that values without any
+ * are sent as is without walking them again.
+ */
+const holdsTransportClass = (
+  value: unknown,
+  seen = new Set<object>(),
+): boolean => {
+  if (typeof value !== 'object' || value === null || seen.has(value)) {
+    return false;
+  }
+  seen.add(value);
+  if (Array.isArray(value)) {
+    return value.some((item) => holdsTransportClass(item, seen));
+  }
+  if (!isPlainObject(value)) {
+    return getRegisteredTransportClassId(value.constructor) !== undefined;
+  }
+  return Object.values(value).some((item) => holdsTransportClass(item, seen));
+};
+
+/**
+ * Container described by a @TransportType() descriptor
+ */
+type TransportContainer =
+  | {
+      kind: 'Map';
+      key: TransportTypeDescriptor;
+      value: TransportTypeDescriptor;
+    }
+  | { kind: 'Set' | 'Object'; value: TransportTypeDescriptor }
+  | { kind: 'Tuple'; items: TransportTypeDescriptor[] };
+
+/**
+ * Parse a container descriptor. Classes and `[Type]` arrays are not
+ * containers and give null.
+ */
+const getTransportContainer = (
+  descriptor: TransportTypeDescriptor,
+  context: TransportContext,
+): TransportContainer | null => {
+  if (!Array.isArray(descriptor) || descriptor.length < 2) return null;
+  if (getUnionClasses(descriptor)) return null;
+  const [kind, ...types] = descriptor as TransportTypeDescriptor[];
+  if (kind === Map && types.length === 2) {
+    return { kind: 'Map', key: types[0], value: types[1] };
+  }
+  if (kind === Set && types.length === 1) {
+    return { kind: 'Set', value: types[0] };
+  }
+  if (kind === Object && types.length === 1) {
+    return { kind: 'Object', value: types[0] };
+  }
+  if (kind === Array) {
+    return { kind: 'Tuple', items: types };
+  }
+  throw new TypeError(
+    `${context.path.join('.')}: Invalid @TransportType() container descriptor`,
+  );
+};
+
+const describedAs = (
+  descriptor: TransportTypeDescriptor | undefined,
+): TransporterInfo | null =>
+  descriptor === undefined
+    ? null
+    : { type: 'class', factory: () => descriptor };
+
+const expectContainer = (
+  valid: boolean,
+  container: TransportContainer,
+  context: TransportContext,
+): void => {
+  if (!valid) {
+    const expected = container.kind === 'Tuple' ? 'Array' : container.kind;
+    throw new TypeError(`${context.path.join('.')}: Expected ${expected}`);
+  }
+};
+
+/**
+ * Encode the contents of a Map, Set, record or tuple with their
+ * descriptors. The container itself is rebuilt by structured clone; its
+ * contents are encoded in order, as reference ids depend on it.
+ * Containers cloned from another realm fail `instanceof`, hence util.types.
+ */
+const encodeContainer = async (
+  value: any,
+  container: TransportContainer,
+  context: TransportContext,
+): Promise<unknown> => {
+  const encodeItem = (
+    item: unknown,
+    descriptor: TransportTypeDescriptor | undefined,
+    key: string,
+  ) =>
+    encodeValue(item, describedAs(descriptor), null, {
+      ...context,
+      path: [...context.path, key],
+    });
+
+  switch (container.kind) {
+    case 'Map': {
+      expectContainer(types.isMap(value), container, context);
+      const encoded = new Map<unknown, unknown>();
+      let index = 0;
+      for (const [key, item] of value as Map<unknown, unknown>) {
+        const encodedKey = await encodeItem(key, container.key, `[${index}]`);
+        encoded.set(
+          encodedKey,
+          await encodeItem(item, container.value, `[${index}]`),
+        );
+        index += 1;
+      }
+      return encoded;
+    }
+    case 'Set': {
+      expectContainer(types.isSet(value), container, context);
+      const encoded = new Set<unknown>();
+      let index = 0;
+      for (const item of value as Set<unknown>) {
+        encoded.add(await encodeItem(item, container.value, `[${index}]`));
+        index += 1;
+      }
+      return encoded;
+    }
+    case 'Object': {
+      expectContainer(
+        typeof value === 'object' && !Array.isArray(value),
+        container,
+        context,
+      );
+      const entries: [string, unknown][] = [];
+      for (const [key, item] of Object.entries(value)) {
+        entries.push([key, await encodeItem(item, container.value, key)]);
+      }
+      return Object.fromEntries(entries);
+    }
+    case 'Tuple': {
+      expectContainer(Array.isArray(value), container, context);
+      const encoded: unknown[] = [];
+      for (const [index, item] of (value as unknown[]).entries()) {
+        encoded.push(
+          await encodeItem(item, container.items[index], `[${index}]`),
+        );
+      }
+      return encoded;
+    }
+  }
+};
+
+/**
+ * Rebuild the contents of a container encoded by encodeContainer()
+ */
+const decodeContainer = async (
+  encoded: any,
+  container: TransportContainer,
+  context: TransportContext,
+): Promise<unknown> => {
+  const decodeItem = (
+    item: unknown,
+    descriptor: TransportTypeDescriptor | undefined,
+    key: string,
+  ) =>
+    decodeValue(item, describedAs(descriptor), null, {
+      ...context,
+      path: [...context.path, key],
+    });
+
+  switch (container.kind) {
+    case 'Map': {
+      expectContainer(types.isMap(encoded), container, context);
+      const decoded = new Map<unknown, unknown>();
+      let index = 0;
+      for (const [key, item] of encoded as Map<unknown, unknown>) {
+        const decodedKey = await decodeItem(key, container.key, `[${index}]`);
+        decoded.set(
+          decodedKey,
+          await decodeItem(item, container.value, `[${index}]`),
+        );
+        index += 1;
+      }
+      return decoded;
+    }
+    case 'Set': {
+      expectContainer(types.isSet(encoded), container, context);
+      const decoded = new Set<unknown>();
+      let index = 0;
+      for (const item of encoded as Set<unknown>) {
+        decoded.add(await decodeItem(item, container.value, `[${index}]`));
+        index += 1;
+      }
+      return decoded;
+    }
+    case 'Object': {
+      expectContainer(
+        typeof encoded === 'object' && !Array.isArray(encoded),
+        container,
+        context,
+      );
+      const entries: [string, unknown][] = [];
+      for (const [key, item] of Object.entries(encoded)) {
+        entries.push([key, await decodeItem(item, container.value, key)]);
+      }
+      return Object.fromEntries(entries);
+    }
+    case 'Tuple': {
+      expectContainer(Array.isArray(encoded), container, context);
+      const decoded: unknown[] = [];
+      for (const [index, item] of (encoded as unknown[]).entries()) {
+        decoded.push(
+          await decodeItem(item, container.items[index], `[${index}]`),
+        );
+      }
+      return decoded;
+    }
+  }
 };
 
 /**
@@ -35,29 +431,143 @@ export const encodeValue = async (
     return value;
   }
 
+  // Handle transfer() wrappers
+  if (isTransferWrapper(value)) {
+    value.transferList.forEach((item) => addTransfer(context, item));
+    return await encodeValue(value.value, transporterInfo, designType, {
+      ...context,
+      transfer: true,
+    });
+  }
+
   // Handle custom encoder
   if (transporterInfo?.type === 'encoder') {
     return await transporterInfo.encoder.encode(value);
   }
 
+  // MessagePorts cannot be copied, only moved
+  if (value instanceof MessagePort) {
+    addTransfer(context, value);
+    return value;
+  }
+
+  // Worker instances are replaced by a channel to their worker thread
+  const peer = getPeerConnector(value);
+  if (peer) {
+    if (!context.handles?.transferList) {
+      throw new TypeError(
+        `${context.path.join('.')}: Worker instances can only be passed as @WorkerMethod() arguments`,
+      );
+    }
+    const port = peer.connect();
+    addTransfer(context, port);
+    return { __type: 'Peer', classId: peer.classId, port };
+  }
+
+  // Handle @TransportCallback() functions
+  if (transporterInfo?.type === 'callback') {
+    if (typeof value !== 'function') {
+      throw new TypeError(
+        `${context.path.join('.')}: @TransportCallback() expects a function`,
+      );
+    }
+    const register = context.handles?.registerCallback;
+    if (!register) {
+      throw new TypeError(
+        `${context.path.join('.')}: @TransportCallback() is only supported for @WorkerMethod() arguments`,
+      );
+    }
+    return { __type: 'Callback', id: register(value) };
+  }
+
+  // Handle @TransportRemote() values, which stay in this thread
+  if (transporterInfo?.type === 'remote' || isTransportRemoteInstance(value)) {
+    if (typeof value !== 'object' && typeof value !== 'function') {
+      return value;
+    }
+    const register = context.handles?.registerRemote;
+    if (!register) {
+      throw new TypeError(
+        `${context.path.join('.')}: @TransportRemote() values can only be returned from the worker`,
+      );
+    }
+    return {
+      __type: 'Remote',
+      id: register(value),
+      methods: getRemoteMethods(value),
+    };
+  }
+
   // Get target class from transporter or design type
   let targetClass: AnyClass | null = null;
   let isArray = false;
+  let container: TransportContainer | null = null;
+  let union: AnyClass[] | null = null;
 
   if (transporterInfo?.type === 'class') {
     const result = transporterInfo.factory();
-    if (Array.isArray(result)) {
+    union = getUnionClasses(result);
+    container = getTransportContainer(result, context);
+    if (union) {
+      targetClass = union[0];
+    } else if (container) {
+      // Contents are encoded by encodeContainer()
+    } else if (Array.isArray(result)) {
       isArray = true;
-      targetClass = result[0];
+      // A nested descriptor for arrays of containers
+      targetClass = result[0] as AnyClass;
     } else {
       targetClass = result;
     }
-  } else if (designType && designType !== Object) {
+  } else if (!isUntypedDesignType(designType)) {
     targetClass = designType;
+  } else if (
+    typeof value === 'object' &&
+    getRegisteredTransportClassId(value.constructor)
+  ) {
+    // Untyped instances of registered classes are detected at runtime
+    targetClass = value.constructor;
+  }
+
+  // The outermost reference-preserving value owns the ids
+  const preserveRefs =
+    (transporterInfo?.type === 'class'
+      ? transporterInfo.preserveRefs
+      : undefined) ?? preserveRefsByDefault;
+  if (
+    preserveRefs &&
+    !context.refs &&
+    (container || (targetClass && !isBuiltinType(targetClass)))
+  ) {
+    context = { ...context, refs: new Map() };
+  }
+
+  if (container) {
+    return await encodeContainer(value, container, context);
   }
 
   // Handle arrays
   if (Array.isArray(value)) {
+    if (context.refs) {
+      const ref = context.refs.get(value);
+      if (ref !== undefined) return { __type: 'Ref', id: ref };
+      const id = context.refs.size;
+      context.refs.set(value, id);
+      const itemClass = isArray ? targetClass : null;
+      // Encoded in order, so that an object is defined before it is referenced
+      const items: unknown[] = [];
+      for (const [idx, item] of value.entries()) {
+        items.push(
+          await encodeValue(
+            item,
+            itemClass ? { type: 'class', factory: () => itemClass } : null,
+            itemClass,
+            { ...context, path: [...context.path, `[${idx}]`] },
+          ),
+        );
+      }
+      return { __type: 'Array', __ref: id, items };
+    }
     if (isArray && targetClass) {
       return await Promise.all(
         value.map((item, idx) =>
@@ -65,10 +575,7 @@ export const encodeValue = async (
             item,
             { type: 'class', factory: () => targetClass! },
             targetClass,
-            {
-              path: [...context.path, `[${idx}]`],
-              visited: context.visited,
-            },
+            { ...context, path: [...context.path, `[${idx}]`] },
           ),
         ),
       );
@@ -76,8 +583,8 @@ export const encodeValue = async (
     return await Promise.all(
       value.map((item, idx) =>
         encodeValue(item, null, null, {
+          ...context,
           path: [...context.path, `[${idx}]`],
-          visited: context.visited,
         }),
       ),
     );
@@ -96,6 +603,20 @@ export const encodeValue = async (
         byteLength: value.byteLength,
         isShared: true,
       };
+    } else if (context.transfer) {
+      // A Buffer owning its whole ArrayBuffer is moved as is. Pooled or
+      // sliced Buffers share their ArrayBuffer, so they are copied once.
+      const data =
+        value.byteOffset === 0 && value.byteLength === value.buffer.byteLength
+          ? new Uint8Array(value.buffer)
+          : new Uint8Array(value);
+      addTransfer(context, data.buffer as ArrayBuffer);
+      return {
+        __type: 'Buffer',
+        data,
+        isShared: false,
+        transferred: true,
+      };
     } else {
       return {
         __type: 'Buffer',
@@ -113,6 +634,33 @@ export const encodeValue = async (
     };
   }
 
+  // Handle errors, which structured clone would reduce to a plain Error
+  if (value instanceof Error) {
+    return {
+      __type: 'Error',
+      error: await encodeError(value, context),
+    };
+  }
+
+  // Move ArrayBuffers and typed arrays inside @Transfer() values
+  if (
+    context.transfer &&
+    (value instanceof ArrayBuffer || ArrayBuffer.isView(value))
+  ) {
+    const buffer = ArrayBuffer.isView(value) ? value.buffer : value;
+    if (!isSharedArrayBuffer(buffer)) {
+      addTransfer(context, buffer as ArrayBuffer);
+    }
+    return value;
+  }
+
+  // Untyped plain objects are searched for registered class instances
+  if (!targetClass && isPlainObject(value)) {
+    return hasTransportClasses() && holdsTransportClass(value)
+      ? await encodePlainObject(value, context)
+      : value;
+  }
+
   // Handle builtin types
   if (!targetClass || isBuiltinType(targetClass)) {
     return value;
@@ -120,33 +668,47 @@ export const encodeValue = async (
 
   // Handle custom class
   if (typeof value === 'object') {
-    // Detect circular references
-    const visited = context.visited || new WeakSet<object>();
-    if (visited.has(value)) {
-      const className =
-        targetClass?.name || value.constructor?.name || 'Object';
-      throw new TypeError(
-        `Circular reference detected in @TransportType hierarchy for class: ${className}. ` +
-          'Circular references are not supported in transport.',
-      );
-    }
-    visited.add(value);
+    // Objects reached again are sent as references in
+    // reference-preserving mode
+    let ref: number | undefined;
+    if (context.refs) {
+      const existing = context.refs.get(value);
+      if (existing !== undefined) return { __type: 'Ref', id: existing };
+      ref = context.refs.size;
+      context.refs.set(value, ref);
+    } else {
+      // Detect circular references
+      const visited = context.visited || new WeakSet<object>();
+      if (visited.has(value)) {
+        const className =
+          targetClass?.name || value.constructor?.name || 'Object';
+        throw new TypeError(
+          `Circular reference detected in @TransportType hierarchy for class: ${className}. ` +
+            'Use @TransportType(..., { preserveRefs: true }) to transport object graphs.',
+        );
+      }
+      visited.add(value);
 
-    // Update context with visited set
-    context = { ...context, visited };
+      // Update context with visited set
+      context = { ...context, visited };
+    }
 
     // Check if it's a typed-struct class
-    const structInfo = getTypedStructInfo(targetClass);
+    // A subclass or union member registered with @TransportClass() is
+    // encoded with its own fields
+    const cls = resolveEncodeClass(value, union ?? [targetClass], context);
+    const structInfo = getTypedStructInfo(cls);
 
     if (structInfo) {
       // Handle typed-struct class
       const encoded: any = {
         __type: 'TypedStructClass',
-        __className: targetClass.name,
+        __className: getTransportClassId(cls),
         structBuffer: null,
         isShared: false,
         data: {},
       };
+      if (ref !== undefined) encoded.__ref = ref;
 
       // Dump the struct buffer using the static raw method
       const buffer = structInfo.structCls.raw(value) as Buffer;
@@ -159,16 +721,17 @@ export const encodeValue = async (
         encoded.isShared = true;
         encoded.byteOffset = buffer.byteOffset;
         encoded.byteLength = buffer.byteLength;
-        // console.log(`[Encode] SharedArrayBuffer detected for ${targetClass.name}`);
+        // console.log(`[Encode] SharedArrayBuffer detected for ${cls.name}`);
       } else {
         // For regular Buffer, copy to Uint8Array
         encoded.structBuffer = new Uint8Array(buffer);
         encoded.isShared = false;
-        // console.log(`[Encode] Regular buffer for ${targetClass.name}`);
+        if (context.transfer) addTransfer(context, encoded.structBuffer.buffer);
+        // console.log(`[Encode] Regular buffer for ${cls.name}`);
       }
 
       // Encode non-struct fields
-      const proto = targetClass.prototype;
+      const proto = cls.prototype;
       for (const key of Object.keys(value)) {
         if (structInfo.fields.has(key)) continue; // Skip struct fields
 
@@ -179,7 +742,7 @@ export const encodeValue = async (
           value[key],
           propTransporter,
           propDesignType,
-          { path: [...context.path, key], visited: context.visited },
+          { ...context, path: [...context.path, key] },
         );
       }
 
@@ -187,13 +750,17 @@ export const encodeValue = async (
     }
 
     // Handle regular custom class
+    if (value instanceof SharedStructArray) {
+      context.handles?.trackStructArray?.(value);
+    }
     const encoded: any = {
       __type: 'CustomClass',
-      __className: targetClass.name,
+      __className: getTransportClassId(cls),
       data: {},
     };
+    if (ref !== undefined) encoded.__ref = ref;
 
-    const proto = targetClass.prototype;
+    const proto = cls.prototype;
     for (const key of Object.keys(value)) {
       const propTransporter = getPropertyTransporter(proto, key);
       const propDesignType = Reflect.getMetadata?.('design:type', proto, key);
@@ -202,7 +769,7 @@ export const encodeValue = async (
         value[key],
         propTransporter,
         propDesignType,
-        { path: [...context.path, key], visited: context.visited },
+        { ...context, path: [...context.path, key] },
       );
     }
 
@@ -212,6 +779,41 @@ export const encodeValue = async (
   return value;
 };
 
+/**
+ * Encode the properties of an untyped plain object. The object is sent as
+ * is unless a property needed encoding, and an object reached again is
+ * copied as is, like structured clone does.
+ */
+const encodePlainObject = async (
+  value: Record<string, unknown>,
+  context: TransportContext,
+): Promise<unknown> => {
+  const plainObjects = context.plainObjects ?? new WeakSet<object>();
+  if (plainObjects.has(value)) return value;
+  plainObjects.add(value);
+  context = { ...context, plainObjects };
+
+  const keys = Object.keys(value);
+  const encodeKey = (key: string) =>
+    encodeValue(value[key], null, null, {
+      ...context,
+      path: [...context.path, key],
+    });
+  let items: unknown[];
+  if (context.refs) {
+    // Encoded in order, so that an object is defined before it is referenced
+    items = [];
+    for (const key of keys) items.push(await encodeKey(key));
+  } else {
+    items = await Promise.all(keys.map(encodeKey));
+  }
+  if (items.every((item, idx) => item === value[keys[idx]])) return value;
+  return {
+    __type: 'Object',
+    data: Object.fromEntries(keys.map((key, idx) => [key, items[idx]])),
+  };
+};
+
 /**
  * Decode value from transport
  */
@@ -230,20 +832,51 @@ export const decodeValue = async (
     return await transporterInfo.encoder.decode(encoded);
   }
 
+  // Objects decoded so far in this value, for references to them
+  if (!context.decodedRefs) {
+    context = { ...context, decodedRefs: new Map() };
+  }
+  const decodedRefs = context.decodedRefs!;
+
+  // Handle @TransportCallback() handles
+  if (transporterInfo?.type === 'callback') {
+    const resolve = context.handles?.resolveCallback;
+    if (encoded?.__type !== 'Callback' || !resolve) {
+      throw new TypeError(
+        `${context.path.join('.')}: Cannot decode @TransportCallback() value`,
+      );
+    }
+    return resolve(encoded.id);
+  }
+
   // Get target class from transporter or design type
   let targetClass: AnyClass | null = null;
   let isArray = false;
+  let union: AnyClass[] | null = null;
 
   if (transporterInfo?.type === 'class') {
     const result = transporterInfo.factory();
-    if (Array.isArray(result)) {
+    union = getUnionClasses(result);
+    const container = getTransportContainer(result, context);
+    if (union) {
+      targetClass = union[0];
+    } else if (container) {
+      return await decodeContainer(encoded, container, context);
+    } else if (Array.isArray(result)) {
       isArray = true;
-      targetClass = result[0];
+      // A nested descriptor for arrays of containers
+      targetClass = result[0] as AnyClass;
     } else {
       targetClass = result;
     }
-  } else if (designType && designType !== Object) {
+  } else if (!isUntypedDesignType(designType)) {
     targetClass = designType;
+  } else if (
+    encoded.__type === 'CustomClass' ||
+    encoded.__type === 'TypedStructClass'
+  ) {
+    // Untyped instances of registered classes
+    targetClass = getTransportClass(encoded.__className) ?? null;
   }
 
   // Handle arrays
@@ -255,16 +888,17 @@ export const decodeValue = async (
             item,
             { type: 'class', factory: () => targetClass! },
             targetClass,
-            {
-              path: [...context.path, `[${idx}]`],
-            },
+            { ...context, path: [...context.path, `[${idx}]`] },
           ),
         ),
       );
     }
     return await Promise.all(
       encoded.map((item, idx) =>
-        decodeValue(item, null, null, { path: [...context.path, `[${idx}]`] }),
+        decodeValue(item, null, null, {
+          ...context,
+          path: [...context.path, `[${idx}]`],
+        }),
       ),
     );
   }
@@ -283,6 +917,10 @@ export const decodeValue = async (
           encoded.byteOffset || 0,
           encoded.byteLength || encoded.data.byteLength,
         );
+      } else if (encoded.transferred) {
+        // The sender gave up the memory, so it can be used without copying
+        const data = encoded.data as Uint8Array;
+        return Buffer.from(data.buffer, data.byteOffset, data.byteLength);
       } else {
         // Regular Buffer
         return Buffer.from(encoded.data as Uint8Array);
@@ -294,8 +932,80 @@ export const decodeValue = async (
       return encoded.data;
     }
 
+    if (encoded.__type === 'Ref') {
+      if (!decodedRefs.has(encoded.id)) {
+        throw new TypeError(
+          `${context.path.join('.')}: Reference to an object not decoded yet`,
+        );
+      }
+      return decodedRefs.get(encoded.id);
+    }
+
+    if (encoded.__type === 'Array') {
+      const items: unknown[] = [];
+      decodedRefs.set(encoded.__ref, items);
+      const itemClass = isArray ? targetClass : null;
+      // Decoded in order, so that an object is defined before it is referenced
+      for (const [idx, item] of (encoded.items as unknown[]).entries()) {
+        items.push(
+          await decodeValue(
+            item,
+            itemClass ? { type: 'class', factory: () => itemClass } : null,
+            itemClass,
+            { ...context, path: [...context.path, `[${idx}]`] },
+          ),
+        );
+      }
+      return items;
+    }
+
+    if (encoded.__type === 'Object') {
+      const data = encoded.data as Record<string, unknown>;
+      const entries: [string, unknown][] = [];
+      // Decoded in order, so that an object is defined before it is referenced
+      for (const key of Object.keys(data)) {
+        entries.push([
+          key,
+          await decodeValue(data[key], null, null, {
+            ...context,
+            path: [...context.path, key],
+          }),
+        ]);
+      }
+      return Object.fromEntries(entries);
+    }
+
+    if (encoded.__type === 'Remote') {
+      const resolve = context.handles?.resolveRemote;
+      if (!resolve) {
+        throw new TypeError(
+          `${context.path.join('.')}: Cannot decode @TransportRemote() value`,
+        );
+      }
+      return resolve(encoded.id, encoded.methods);
+    }
+
+    if (encoded.__type === 'Peer') {
+      const resolve = context.handles?.resolvePeer;
+      if (!resolve) {
+        throw new TypeError(
+          `${context.path.join('.')}: Cannot decode worker instance`,
+        );
+      }
+      return resolve(encoded.classId, encoded.port);
+    }
+
+    if (encoded.__type === 'Error') {
+      return await decodeError(encoded.error, '', context);
+    }
+
     if (encoded.__type === 'TypedStructClass' && targetClass) {
-      const structInfo = getTypedStructInfo(targetClass);
+      const cls = resolveDecodeClass(
+        encoded.__className,
+        union ?? [targetClass],
+        context,
+      );
+      const structInfo = getTypedStructInfo(cls);
       if (!structInfo) {
         throw new Error(
           `${context.path.join('.')}: Class is marked as TypedStructClass but is not a typed-struct class`,
@@ -327,10 +1037,11 @@ export const decodeValue = async (
       }
 
       // Use createTypedStructInstance to handle typed-struct instantiation
-      const instance = createTypedStructInstance(targetClass, buffer, clone);
+      const instance = createTypedStructInstance(cls, buffer, clone);
+      if (encoded.__ref !== undefined) decodedRefs.set(encoded.__ref, instance);
 
       // Decode and set non-struct fields
-      const proto = targetClass.prototype;
+      const proto = cls.prototype;
       for (const key of Object.keys(encoded.data)) {
         const propTransporter = getPropertyTransporter(proto, key);
         const propDesignType = Reflect.getMetadata?.('design:type', proto, key);
@@ -339,7 +1050,7 @@ export const decodeValue = async (
           encoded.data[key],
           propTransporter,
           propDesignType,
-          { path: [...context.path, key] },
+          { ...context, path: [...context.path, key] },
         );
       }
 
@@ -347,8 +1058,14 @@ export const decodeValue = async (
     }
 
     if (encoded.__type === 'CustomClass' && targetClass) {
-      const instance = Object.create(targetClass.prototype);
-      const proto = targetClass.prototype;
+      const cls = resolveDecodeClass(
+        encoded.__className,
+        union ?? [targetClass],
+        context,
+      );
+      const instance = Object.create(cls.prototype);
+      if (encoded.__ref !== undefined) decodedRefs.set(encoded.__ref, instance);
+      const proto = cls.prototype;
 
       for (const key of Object.keys(encoded.data)) {
         const propTransporter = getPropertyTransporter(proto, key);
@@ -358,9 +1075,12 @@ export const decodeValue = async (
           encoded.data[key],
           propTransporter,
           propDesignType,
-          { path: [...context.path, key] },
+          { ...context, path: [...context.path, key] },
         );
       }
+      if (instance instanceof SharedStructArray) {
+        context.handles?.trackStructArray?.(instance);
+      }
 
       return instance;
     }
@@ -369,12 +1089,150 @@ export const decodeValue = async (
   return encoded;
 };
 
+/**
+ * Encode an error with its registered class, its own enumerable properties,
+ * its `cause` chain and the `errors` of an AggregateError.
+ * Properties that cannot be transported are dropped, so this never throws.
+ */
+export const encodeError = async (
+  error: unknown,
+  context: TransportContext = { path: [] },
+): Promise<EncodedError> => {
+  if (!(error instanceof Error)) {
+    return { message: String(error) };
+  }
+
+  const encoded: EncodedError = {
+    message: error.message,
+    name: error.name,
+    stack: error.stack,
+    errorClass: getErrorClassId(error),
+  };
+
+  // Stop at errors already seen, e.g. a cause pointing back to its parent
+  const visited = context.visited || new WeakSet<object>();
+  if (visited.has(error)) return encoded;
+  visited.add(error);
+
+  const encodeField = async (
+    key: string,
+    value: unknown,
+    proto: object | null,
+  ): Promise<{ value: unknown } | null> => {
+    try {
+      return {
+        value: await encodeValue(
+          value,
+          proto ? getPropertyTransporter(proto, key) : null,
+          proto ? Reflect.getMetadata?.('design:type', proto, key) : null,
+          { ...context, path: [...context.path, key], visited },
+        ),
+      };
+    } catch {
+      return null;
+    }
+  };
+
+  const isAggregate = error instanceof AggregateError;
+  const proto = Object.getPrototypeOf(error);
+  const properties: Record<string, unknown> = {};
+  for (const key of Object.keys(error)) {
+    if (key === 'cause' || (isAggregate && key === 'errors')) continue;
+    const field = await encodeField(key, (error as any)[key], proto);
+    if (field) properties[key] = field.value;
+  }
+  if (Object.keys(properties).length > 0) {
+    encoded.properties = properties;
+  }
+
+  if (hasOwn(error, 'cause')) {
+    const field = await encodeField('cause', (error as any).cause, null);
+    if (field) encoded.cause = field.value;
+  }
+
+  if (isAggregate) {
+    const field = await encodeField('errors', error.errors, null);
+    if (field) encoded.errors = field.value;
+  }
+
+  return encoded;
+};
+
+/**
+ * Rebuild an error encoded by encodeError() with its registered class.
+ * `fallback` replaces an empty message.
+ */
+export const decodeError = async (
+  encoded: EncodedError | unknown,
+  fallback: string,
+  context: TransportContext = { path: [] },
+): Promise<Error> => {
+  if (!encoded || typeof encoded !== 'object') {
+    return new Error(fallback);
+  }
+
+  const value = encoded as EncodedError;
+  const cls = getErrorClass(value.errorClass);
+  const proto = cls.prototype;
+  const error: Error = Object.create(proto);
+  const define = (key: string, fieldValue: unknown, enumerable = false) =>
+    Object.defineProperty(error, key, {
+      configurable: true,
+      enumerable,
+      writable: true,
+      value: fieldValue,
+    });
+
+  define('message', value.message || fallback);
+
+  for (const [key, field] of Object.entries(value.properties ?? {})) {
+    define(
+      key,
+      await decodeValue(
+        field,
+        getPropertyTransporter(proto, key),
+        Reflect.getMetadata?.('design:type', proto, key),
+        { ...context, path: [...context.path, key] },
+      ),
+      true,
+    );
+  }
+
+  if (value.name && !hasOwn(error, 'name') && value.name !== error.name) {
+    define('name', value.name);
+  }
+  define('stack', value.stack ?? `${error.name}: ${error.message}`);
+
+  if (hasOwn(value, 'cause')) {
+    define(
+      'cause',
+      await decodeValue(value.cause, null, null, {
+        ...context,
+        path: [...context.path, 'cause'],
+      }),
+    );
+  }
+
+  if (value.errors !== undefined) {
+    define(
+      'errors',
+      await decodeValue(value.errors, null, null, {
+        ...context,
+        path: [...context.path, 'errors'],
+      }),
+    );
+  }
+
+  return error;
+};
+
 /**
  * Encode constructor arguments
  */
 export const encodeCtorArgs = async (
   cls: AnyClass,
   args: unknown[],
+  handles?: TransportHandles,
 ): Promise<unknown[]> => {
   const paramTransporters = getCtorParamTransporters(cls);
   const designParamTypes: any[] =
@@ -386,6 +1244,7 @@ export const encodeCtorArgs = async (
       const designType = designParamTypes[index];
       return encodeValue(arg, transporter, designType, {
         path: [`ctorArg[${index}]`],
+        handles,
       });
     }),
   );
@@ -420,8 +1279,10 @@ export const encodeMethodArgs = async (
   target: any,
   methodName: string,
   args: unknown[],
+  handles?: TransportHandles,
 ): Promise<unknown[]> => {
   const paramTransporters = getParamTransporters(target, methodName);
+  const transferParams = getTransferParams(target, methodName);
   const designParamTypes: any[] =
     Reflect.getMetadata?.('design:paramtypes', target, methodName) || [];
 
@@ -431,6 +1292,8 @@ export const encodeMethodArgs = async (
       const designType = designParamTypes[index];
       return encodeValue(arg, transporter, designType, {
         path: [`arg[${index}]`],
+        handles,
+        transfer: transferParams.has(index),
       });
     }),
   );
@@ -443,6 +1306,7 @@ export const decodeMethodArgs = async (
   target: any,
   methodName: string,
   encoded: unknown[],
+  handles?: TransportHandles,
 ): Promise<unknown[]> => {
   const paramTransporters = getParamTransporters(target, methodName);
   const designParamTypes: any[] =
@@ -454,6 +1318,7 @@ export const decodeMethodArgs = async (
       const designType = designParamTypes[index];
       return decodeValue(arg, transporter, designType, {
         path: [`arg[${index}]`],
+        handles,
       });
     }),
   );
@@ -466,6 +1331,7 @@ export const encodeMethodReturn = async (
   target: any,
   methodName: string,
   value: unknown,
+  handles?: TransportHandles,
 ): Promise<unknown> => {
   const transporter = getReturnTransporter(target, methodName);
   const designReturnType = Reflect.getMetadata?.(
@@ -476,6 +1342,8 @@ export const encodeMethodReturn = async (
 
   return await encodeValue(value, transporter, designReturnType, {
     path: ['return'],
+    handles,
+    transfer: isTransferReturn(target, methodName),
   });
 };
 
@@ -486,6 +1354,7 @@ export const decodeMethodReturn = async (
   target: any,
   methodName: string,
   encoded: unknown,
+  handles?: TransportHandles,
 ): Promise<unknown> => {
   const transporter = getReturnTransporter(target, methodName);
   const designReturnType = Reflect.getMetadata?.(
@@ -496,5 +1365,6 @@ export const decodeMethodReturn = async (
 
   return await decodeValue(encoded, transporter, designReturnType, {
     path: ['return'],
+    handles,
   });
 };
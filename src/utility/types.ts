@@ -1,3 +1,4 @@
+import { WorkerOptions } from 'node:worker_threads';
 import { StructConstructor } from 'typed-struct';
 
 export type AnyStructConstructor = StructConstructor<any, string>;
@@ -8,5 +9,102 @@ export enum WorkerStatus {
   InitError = 'InitError',
   WorkerError = 'WorkerError',
   Exited = 'Exited',
+  Restarting = 'Restarting',
+  Idle = 'Idle',
+  Unresponsive = 'Unresponsive',
   Finalized = 'Finalized',
 }
+
+export type WorkerCallOptions = {
+  signal?: AbortSignal;
+  /**
+   * Milliseconds before the call rejects with `WorkerTimeoutError`. Takes
+   * precedence over the method and class timeouts; `0` disables them.
+   */
+  timeout?: number;
+};
+
+export type WorkerFinalizeOptions = {
+  /**
+   * `'immediate'` (default) rejects the calls in flight and terminates the
+   * thread. `'drain'` rejects new calls but lets the calls in flight settle
+   * and runs the @OnWorkerShutdown() methods before the thread exits.
+   */
+  mode?: 'immediate' | 'drain';
+  /**
+   * With `'drain'`, milliseconds to wait before terminating the thread
+   * anyway. Waits indefinitely by default.
+   */
+  timeout?: number;
+};
+
+export type WorkerRestartPolicy = 'never' | 'on-failure' | 'always';
+
+export type WorkerRestartOptions = {
+  /**
+   * Whether to start a new worker thread when the current one exits without
+   * being finalized: never (default), only on a non-zero exit code or
+   * uncaught error, or on any exit.
+   */
+  restart?: WorkerRestartPolicy;
+  /**
+   * Maximum number of restarts over the lifetime of the instance.
+   * Defaults to unlimited.
+   */
+  maxRestarts?: number;
+  /**
+   * Delay in milliseconds before the first restart. Consecutive crashes
+   * double the delay, up to `maxRestartDelay`. Defaults to 100.
+   */
+  restartDelay?: number;
+  /**
+   * Upper bound for the restart delay in milliseconds. A worker that stays
+   * up for this long resets the backoff. Defaults to 10000.
+   */
+  maxRestartDelay?: number;
+};
+
+export type WorkerHeartbeatOptions = {
+  /**
+   * Milliseconds between two pings sent to a ready worker to check that its
+   * event loop is not blocked. Disabled by default.
+   */
+  heartbeatInterval?: number;
+  /**
+   * Consecutive heartbeats left unanswered before the worker is reported
+   * Unresponsive. Defaults to 3.
+   */
+  maxMissedHeartbeats?: number;
+};
+
+/**
+ * Options passed on to the Worker constructor. Other WorkerOptions such as
+ * `eval` and `workerData` are reserved.
+ */
+export type WorkerThreadOptions = Pick<
+  WorkerOptions,
+  'resourceLimits' | 'env' | 'execArgv' | 'argv' | 'name' | 'trackUnmanagedFds'
+> & {
+  /**
+   * `true` leaves the output of the worker unread instead of piping it to
+   * process.stdout / process.stderr; a stream receives it instead.
+   */
+  stdout?: boolean | NodeJS.WritableStream;
+  stderr?: boolean | NodeJS.WritableStream;
+};
+
+export type WorkerConnectOptions = WorkerRestartOptions &
+  WorkerThreadOptions &
+  WorkerHeartbeatOptions & {
+    /**
+     * Run the worker side in this thread instead of a worker thread, for unit
+     * tests. Defaults to the value set with setInlineWorkers().
+     */
+    inline?: boolean;
+    /**
+     * Milliseconds without calls in flight after which the worker thread runs
+     * its @OnWorkerShutdown() methods and exits. The next call starts a new
+     * thread transparently.
+     */
+    idleTimeout?: number;
+  };
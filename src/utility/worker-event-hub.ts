@@ -0,0 +1,159 @@
+import { WorkerCallOptions } from './types';
+
+type AnyFunction = (...args: any[]) => any;
+
+/**
+ * Methods of T, the candidates for @WorkerEvent() names.
+ */
+export type WorkerEventKey<T> = {
+  [K in keyof T]: T[K] extends AnyFunction ? K : never;
+}[keyof T] &
+  string;
+
+export type WorkerEventArgs<T, K extends keyof T> = T[K] extends (
+  ...args: infer A
+) => any
+  ? A
+  : never;
+
+export type WorkerEventApi<T> = {
+  on: <K extends WorkerEventKey<T>>(
+    event: K,
+    handler: (...args: WorkerEventArgs<T, K>) => void,
+  ) => () => void;
+  off: <K extends WorkerEventKey<T>>(
+    event: K,
+    handler: (...args: WorkerEventArgs<T, K>) => void,
+  ) => void;
+  eventIterator: <K extends WorkerEventKey<T>>(
+    event: K,
+    options?: WorkerCallOptions,
+  ) => AsyncIterableIterator<WorkerEventArgs<T, K>>;
+};
+
+type Handler = (...args: unknown[]) => void;
+
+/**
+ * Main-thread subscriptions to @WorkerEvent() methods.
+ * One hub is shared by every worker connected through a host context.
+ */
+export type WorkerEventHub = {
+  on: (event: string, handler: Handler) => () => void;
+  off: (event: string, handler: Handler) => void;
+  eventIterator: (
+    event: string,
+    options?: WorkerCallOptions,
+  ) => AsyncIterableIterator<unknown[]>;
+  emit: (event: string, args: unknown[]) => void;
+  close: () => void;
+};
+
+export const createWorkerEventHub = (): WorkerEventHub => {
+  const handlers = new Map<string, Set<Handler>>();
+  const iterators = new Set<() => void>();
+  let closed = false;
+
+  const on = (event: string, handler: Handler) => {
+    let set = handlers.get(event);
+    if (!set) {
+      set = new Set();
+      handlers.set(event, set);
+    }
+    set.add(handler);
+    return () => off(event, handler);
+  };
+
+  const off = (event: string, handler: Handler) => {
+    handlers.get(event)?.delete(handler);
+  };
+
+  const emit = (event: string, args: unknown[]) => {
+    const set = handlers.get(event);
+    if (!set) return;
+    for (const handler of [...set]) {
+      try {
+        handler(...args);
+      } catch (error) {
+        console.error(`Error in @WorkerEvent() handler for ${event}:`, error);
+      }
+    }
+  };
+
+  // Subscribe eagerly so that events emitted before the first next() are
+  // buffered rather than lost
+  const eventIterator = (
+    event: string,
+    options: WorkerCallOptions = {},
+  ): AsyncIterableIterator<unknown[]> => {
+    const { signal } = options;
+    const queue: unknown[][] = [];
+    const waiting: ((result: IteratorResult<unknown[]>) => void)[] = [];
+    let done = false;
+
+    const handler = (...args: unknown[]) => {
+      const next = waiting.shift();
+      if (next) next({ done: false, value: args });
+      else queue.push(args);
+    };
+    const finish = () => {
+      if (done) return;
+      done = true;
+      off(event, handler);
+      iterators.delete(finish);
+      signal?.removeEventListener('abort', finish);
+      waiting
+        .splice(0)
+        .forEach((resolve) => resolve({ done: true, value: undefined }));
+    };
+
+    if (closed || signal?.aborted) {
+      done = true;
+    } else {
+      on(event, handler);
+      iterators.add(finish);
+      signal?.addEventListener('abort', finish, { once: true });
+    }
+
+    return {
+      next: () => {
+        if (queue.length > 0) {
+          return Promise.resolve({ done: false, value: queue.shift()! });
+        }
+        if (done) return Promise.resolve({ done: true, value: undefined });
+        return new Promise((resolve) => waiting.push(resolve));
+      },
+      return: () => {
+        finish();
+        queue.length = 0;
+        return Promise.resolve({ done: true, value: undefined });
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  };
+
+  const close = () => {
+    closed = true;
+    [...iterators].forEach((finish) => finish());
+  };
+
+  return { on, off, eventIterator, emit, close };
+};
+
+/**
+ * Expose the hub as `on()`, `off()` and `eventIterator()` on the main-thread instance.
+ */
+export const defineWorkerEventApi = (
+  instance: object,
+  hub: WorkerEventHub,
+): void => {
+  (['on', 'off', 'eventIterator'] as const).forEach((key) => {
+    Object.defineProperty(instance, key, {
+      configurable: true,
+      enumerable: false,
+      writable: false,
+      value: hub[key],
+    });
+  });
+};
@@ -0,0 +1,1548 @@
+import { AnyClass } from 'nfkit';
+import {
+  MessageChannel,
+  MessagePort,
+  TransferListItem,
+  Worker,
+} from 'node:worker_threads';
+import {
+  getWorkerAbortSignalIndex,
+  getWorkerCallbacks,
+  getWorkerEventHandlers,
+  getWorkerEvents,
+  getWorkerMethodOptions,
+  isWorkerStreamMethod,
+} from '../worker-method';
+import {
+  getWorkerRegistration,
+  WorkerCallbackInvokeMessage,
+  WorkerCallbackResultMessage,
+  WorkerDataPayload,
+  WorkerHostMessage,
+  WorkerInvokeMessage,
+  WorkerRegistration,
+  WorkerResultMessage,
+  WorkerStreamMessage,
+} from '../worker';
+import {
+  WorkerCallOptions,
+  WorkerConnectOptions,
+  WorkerFinalizeOptions,
+  WorkerHeartbeatOptions,
+  WorkerRestartOptions,
+  WorkerStatus,
+  WorkerThreadOptions,
+} from './types';
+import {
+  WorkerAbortError,
+  WorkerResourceLimitError,
+  WorkerTimeoutError,
+} from './errors';
+import {
+  encodeMethodArgs,
+  decodeMethodReturn,
+  encodeMethodReturn,
+  decodeMethodArgs,
+  encodeCtorArgs,
+  encodeError,
+  decodeError,
+  encodeValue,
+  decodeValue,
+  TransportHandles,
+} from './transport';
+import { appendCallSite, captureCallSite } from './transport-error';
+import { createTypedStructInstance } from './typed-struct-registry';
+import { getSharedParams } from './shared-decorator';
+import { WORKER_BOOTSTRAP } from './worker-bootstrap';
+import { InlineWorker, isInlineByDefault } from './inline-worker';
+import { toShared } from '../to-shared';
+import { registerWriteSequence, resetWriteSequence } from '../shared-snapshot';
+import { createWorkerEventHub, WorkerEventHub } from './worker-event-hub';
+import {
+  getSharedStructArrayUpdate,
+  onSharedStructArrayGrow,
+  SharedStructArrayUpdate,
+} from '../shared-struct-array';
+
+type ErrorLike = {
+  message: string;
+  name?: string;
+  stack?: string;
+};
+
+const toError = (error: ErrorLike | unknown, fallback: string): Error => {
+  if (error && typeof error === 'object' && 'message' in error) {
+    const value = error as ErrorLike;
+    const err = new Error(value.message || fallback);
+    if (value.name) err.name = value.name;
+    if (value.stack) err.stack = value.stack;
+    return err;
+  }
+  return new Error(fallback);
+};
+
+/**
+ * Everything needed to spawn worker threads for a class.
+ * The main-thread instance and the encoded workerData are shared by every
+ * worker connected through this context.
+ */
+export type WorkerHostContext<C extends AnyClass> = {
+  cls: C;
+  registration: WorkerRegistration;
+  instance: InstanceType<C>;
+  events: WorkerEventHub;
+  workerData: WorkerDataPayload & {
+    __entryFile: string;
+  };
+  // Ids of the SharedStructArrays in the constructor arguments
+  structArrayIds: string[];
+};
+
+/**
+ * A @TransportRemote() object living in a specific worker thread
+ */
+type RemoteTarget = {
+  handle: number;
+  generation: number;
+};
+
+/**
+ * Chunks a streaming call may have in flight before the worker waits for
+ * the main thread to consume them.
+ */
+const STREAM_HIGH_WATER_MARK = 16;
+
+/**
+ * Milliseconds an idle thread gets to run its @OnWorkerShutdown() methods
+ * before it is terminated.
+ */
+const IDLE_SHUTDOWN_TIMEOUT = 5000;
+
+/**
+ * A single worker thread bound to a host context.
+ */
+export type WorkerConnection = {
+  ready: Promise<void>;
+  call: (
+    method: string,
+    args: unknown[],
+    options?: WorkerCallOptions,
+    remote?: RemoteTarget,
+  ) => Promise<unknown>;
+  stream: (
+    method: string,
+    args: unknown[],
+    options?: WorkerCallOptions,
+  ) => AsyncGenerator<unknown, void, undefined>;
+  finalize: (options?: WorkerFinalizeOptions) => Promise<void>;
+  status: () => WorkerStatus;
+  activeCount: () => number;
+  /**
+   * Round-trip time in milliseconds of a message through the event loop of
+   * the worker thread.
+   */
+  ping: () => Promise<number>;
+  /**
+   * Open a channel to the worker thread for a worker instance passed to
+   * another worker.
+   */
+  connectPeer: () => MessagePort;
+};
+
+export const prepareWorkerHost = async <C extends AnyClass>(
+  cls: C,
+  args: ConstructorParameters<C>,
+): Promise<WorkerHostContext<C>> => {
+  const registration = getWorkerRegistration(cls);
+  if (!registration) {
+    throw new Error(
+      `@DefineWorker() is required for ${cls.name || 'AnonymousClass'}`,
+    );
+  }
+
+  let typedStructPayload: WorkerDataPayload['typedStruct'] = null;
+  const typedStruct = registration.typedStruct;
+
+  // Scan for @Shared parameters
+  const sharedParams = getSharedParams(cls);
+  const processedArgs = [...args];
+
+  // Process @Shared parameters
+  if (sharedParams.length > 0) {
+    for (const paramInfo of sharedParams) {
+      const index = paramInfo.index;
+
+      const arg = args[index];
+
+      // Convert argument to shared memory
+      const sharedArg = toShared(arg);
+
+      // Update processed args for worker construction
+      processedArgs[index] = sharedArg;
+    }
+  }
+
+  let instance: InstanceType<C>;
+  if (typedStruct) {
+    // First, create a temporary instance with processed args to get initial buffer values
+    const tempInstance = new cls(
+      ...(processedArgs as ConstructorParameters<C>),
+    );
+    const tempBuffer = typedStruct.structCls.raw(tempInstance) as Buffer;
+
+    // Create SharedArrayBuffer and copy initial values
+    const sharedMemory = new SharedArrayBuffer(tempBuffer.length);
+    const sharedBuffer = Buffer.from(sharedMemory);
+    tempBuffer.copy(sharedBuffer);
+
+    typedStructPayload = {
+      sharedBuffer: sharedMemory,
+      writeSequence: new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT),
+    };
+    if (registration.sharedChanges) {
+      typedStructPayload.changeCounter = new SharedArrayBuffer(
+        Int32Array.BYTES_PER_ELEMENT,
+      );
+    }
+
+    // Use createTypedStructInstance with processed args
+    instance = createTypedStructInstance(
+      cls,
+      sharedBuffer,
+      false,
+      processedArgs as any,
+    );
+    registerWriteSequence(instance, typedStructPayload.writeSequence);
+  } else {
+    // Regular class construction
+    instance = new cls(...(processedArgs as ConstructorParameters<C>));
+  }
+
+  // Encode constructor arguments for worker thread
+  // This ensures custom classes don't lose their prototype through structured clone
+  const structArrayIds: string[] = [];
+  const encodedCtorArgs = await encodeCtorArgs(cls, processedArgs, {
+    trackStructArray: (array) => structArrayIds.push(array.id),
+  });
+
+  return {
+    cls,
+    registration,
+    instance,
+    events: createWorkerEventHub(),
+    workerData: {
+      __yuzuthread: true,
+      classId: registration.id,
+      ctorArgs: encodedCtorArgs,
+      typedStruct: typedStructPayload,
+      __entryFile: registration.filePath,
+    },
+    structArrayIds,
+  };
+};
+
+const resolveRestartOptions = (
+  ...sources: WorkerRestartOptions[]
+): Required<WorkerRestartOptions> => {
+  const pick = <K extends keyof WorkerRestartOptions>(key: K) =>
+    sources.reduce<WorkerRestartOptions[K]>(
+      (value, source) => source[key] ?? value,
+      undefined,
+    );
+  return {
+    restart: pick('restart') ?? 'never',
+    maxRestarts: pick('maxRestarts') ?? Infinity,
+    restartDelay: pick('restartDelay') ?? 100,
+    maxRestartDelay: pick('maxRestartDelay') ?? 10000,
+  };
+};
+
+const resolveHeartbeatOptions = (
+  ...sources: WorkerHeartbeatOptions[]
+): WorkerHeartbeatOptions & { maxMissedHeartbeats: number } => {
+  const pick = <K extends keyof WorkerHeartbeatOptions>(key: K) =>
+    sources.reduce<WorkerHeartbeatOptions[K]>(
+      (value, source) => source[key] ?? value,
+      undefined,
+    );
+  return {
+    heartbeatInterval: pick('heartbeatInterval'),
+    maxMissedHeartbeats: pick('maxMissedHeartbeats') ?? 3,
+  };
+};
+
+const THREAD_OPTION_KEYS = [
+  'resourceLimits',
+  'env',
+  'execArgv',
+  'argv',
+  'name',
+  'trackUnmanagedFds',
+  'stdout',
+  'stderr',
+] as const;
+
+/**
+ * Per-instance thread options override those of @DefineWorker() key by key.
+ */
+const resolveThreadOptions = (
+  ...sources: WorkerThreadOptions[]
+): WorkerThreadOptions => {
+  const resolved: Record<string, unknown> = {};
+  for (const key of THREAD_OPTION_KEYS) {
+    const value = sources.reduce<unknown>(
+      (current, source) => source[key] ?? current,
+      undefined,
+    );
+    if (value !== undefined) resolved[key] = value;
+  }
+  return resolved as WorkerThreadOptions;
+};
+
+/**
+ * Start a worker thread. Streams given as `stdout` / `stderr` receive the
+ * output of the thread.
+ */
+const createWorkerThread = (
+  workerData: WorkerHostContext<AnyClass>['workerData'],
+  { stdout, stderr, ...threadOptions }: WorkerThreadOptions,
+): Worker => {
+  const worker = new Worker(WORKER_BOOTSTRAP, {
+    ...threadOptions,
+    stdout: stdout !== undefined && stdout !== false,
+    stderr: stderr !== undefined && stderr !== false,
+    eval: true,
+    workerData,
+  });
+  if (typeof stdout === 'object') worker.stdout.pipe(stdout, { end: false });
+  if (typeof stderr === 'object') worker.stderr.pipe(stderr, { end: false });
+  return worker;
+};
+
+export const connectWorker = <C extends AnyClass>(
+  context: WorkerHostContext<C>,
+  options: WorkerConnectOptions = {},
+): WorkerConnection => {
+  const { cls, instance, workerData, registration, events } = context;
+  const className = cls.name || 'AnonymousClass';
+  const supervision = resolveRestartOptions(registration.restart, options);
+  const inline = options.inline ?? isInlineByDefault();
+  const threadOptions = resolveThreadOptions(registration.thread, options);
+  const heartbeat = resolveHeartbeatOptions(registration.heartbeat, options);
+  const workerCallbacks = new Set(getWorkerCallbacks(cls.prototype));
+  const eventHandlers = getWorkerEventHandlers(cls.prototype);
+  const workerEvents = new Set(getWorkerEvents(cls.prototype));
+  // Events are decoded asynchronously; chain them to keep their order
+  let eventDecoding = Promise.resolve();
+
+  const callEventHandlers = (event: string, ...eventArgs: unknown[]): void => {
+    const handlers = eventHandlers.get(event);
+    if (!handlers) return;
+    for (const handlerKey of handlers) {
+      const handler = (instance as Record<string, unknown>)[handlerKey];
+      if (typeof handler === 'function') {
+        try {
+          handler.apply(instance, eventArgs);
+        } catch (error) {
+          console.error(
+            `Error in @OnWorkerEvent('${event}') handler ${handlerKey}:`,
+            error,
+          );
+        }
+      }
+    }
+  };
+
+  let worker!: Worker;
+  let generation = 0;
+  let finalized = false;
+  // Set once a finalize stops waiting for the calls in flight
+  let closed = false;
+  let ready = false;
+  let everReady = false;
+  let readySince = 0;
+  let status = WorkerStatus.Initializing;
+  let nextCallId = 1;
+  let active = 0;
+  // Peer connections served by the current thread, see connectPeer()
+  let peerConnections = 0;
+  // Supervision state: restarts so far, crashes since the worker last
+  // stayed up long enough to reset the backoff, and the pending restart
+  let restarts = 0;
+  let consecutiveCrashes = 0;
+  let restarting = false;
+  let restartTimer: NodeJS.Timeout | undefined;
+  let crashError: Error | undefined;
+  // Idle shutdown: the thread is terminated after `idleTimeout` without
+  // calls and started again by the next one
+  const idleTimeout = options.idleTimeout;
+  let idleTimer: NodeJS.Timeout | undefined;
+  let sleeping = false;
+  // Exit of the thread that went idle
+  let retiring: Promise<unknown> = Promise.resolve();
+  const pending = new Map<
+    number,
+    {
+      resolve: (value: unknown) => void;
+      reject: (reason?: unknown) => void;
+      method: string;
+      // Set for calls to a method of a @TransportRemote() object
+      handle?: number;
+      callSite: { stack?: string };
+      // Set for idempotent calls, which are sent again after a restart
+      replay?: WorkerInvokeMessage;
+    }
+  >();
+
+  // @TransportCallback() functions the worker may call, with the call that
+  // passed them; the worker releases them once that call completes
+  const callbackHandles = new Map<
+    number,
+    { fn: (...args: unknown[]) => unknown; callId: number }
+  >();
+  let nextHandleId = 1;
+  // Ids of the SharedStructArrays this worker was sent or returned, the
+  // only ones whose grow() it is told about
+  const structArrayIds = new Set(context.structArrayIds);
+  const trackStructArray = (array: { id: string }): void => {
+    structArrayIds.add(array.id);
+  };
+  const callbackHandlesFor = (callId: number): TransportHandles => ({
+    trackStructArray,
+    registerCallback: (fn) => {
+      const handle = nextHandleId;
+      nextHandleId += 1;
+      callbackHandles.set(handle, { fn, callId });
+      return handle;
+    },
+  });
+  const releaseCallbackHandles = (callId?: number): void => {
+    for (const [handle, entry] of callbackHandles) {
+      if (callId === undefined || entry.callId === callId) {
+        callbackHandles.delete(handle);
+      }
+    }
+  };
+
+  // Proxies for @TransportRemote() objects; the worker drops an object once
+  // its proxy is released or garbage collected
+  const remoteTargets = new Set<RemoteTarget>();
+  const remoteRegistry = new FinalizationRegistry<RemoteTarget>((target) => {
+    remoteTargets.delete(target);
+    if (!finalized && target.generation === generation) {
+      try {
+        worker.postMessage({
+          type: 'remote-release',
+          handle: target.handle,
+        } satisfies WorkerInvokeMessage);
+      } catch {
+        // Worker is already exiting.
+      }
+    }
+  });
+  const remoteHandles: TransportHandles = {
+    trackStructArray,
+    resolveRemote: (handle, methods) => {
+      const target: RemoteTarget = { handle, generation };
+      let released = false;
+      const proxy: Record<string, unknown> = {};
+      methods.forEach((method) => {
+        Object.defineProperty(proxy, method, {
+          configurable: true,
+          enumerable: false,
+          writable: true,
+          value: (...methodArgs: unknown[]) =>
+            released
+              ? Promise.reject(
+                  new Error(`Remote object has been released: ${method}`),
+                )
+              : call(method, methodArgs, {}, target),
+        });
+      });
+      Object.defineProperty(proxy, 'release', {
+        configurable: true,
+        enumerable: false,
+        writable: false,
+        value: (): void => {
+          if (released) return;
+          released = true;
+          remoteTargets.delete(target);
+          remoteRegistry.unregister(proxy);
+          if (finalized || target.generation !== generation) return;
+          try {
+            worker.postMessage({
+              type: 'remote-release',
+              handle,
+            } satisfies WorkerInvokeMessage);
+          } catch {
+            // Worker is already exiting.
+          }
+        },
+      });
+      remoteRegistry.register(proxy, target, proxy);
+      remoteTargets.add(target);
+      return proxy;
+    },
+  };
+
+  const streams = new Map<
+    number,
+    {
+      method: string;
+      push: (message: WorkerStreamMessage) => void;
+      fail: (error: unknown) => void;
+    }
+  >();
+
+  // Pings waiting for their pong
+  const pings = new Map<
+    number,
+    {
+      sentAt: number;
+      resolve: (latency: number) => void;
+      reject: (reason?: unknown) => void;
+    }
+  >();
+  let nextPingId = 1;
+  const rejectPings = (error: Error): void => {
+    const waiting = [...pings.values()];
+    pings.clear();
+    waiting.forEach((item) => item.reject(error));
+  };
+
+  const rejectAll = (error: Error): void => {
+    const callbacks = [...pending.values()];
+    pending.clear();
+    callbackHandles.clear();
+    callbacks.forEach((item) => item.reject(error));
+    const activeStreams = [...streams.values()];
+    streams.clear();
+    activeStreams.forEach((item) => item.fail(error));
+    rejectPings(error);
+  };
+
+  // Keep idempotent calls pending so they can be replayed on the next thread
+  const rejectInFlight = (error: Error): void => {
+    for (const [id, item] of pending) {
+      if (item.replay) continue;
+      pending.delete(id);
+      item.reject(error);
+    }
+    const activeStreams = [...streams.values()];
+    streams.clear();
+    activeStreams.forEach((item) => item.fail(error));
+    rejectPings(error);
+    // Replayed calls send the same handles to the new thread
+    for (const [handle, entry] of callbackHandles) {
+      if (!pending.has(entry.callId)) callbackHandles.delete(handle);
+    }
+  };
+
+  let resolveReady!: () => void;
+  let rejectReady!: (reason?: unknown) => void;
+  let readyPromise!: Promise<void>;
+
+  const resetReady = (): void => {
+    ready = false;
+    readyPromise = new Promise<void>((resolve, reject) => {
+      resolveReady = resolve;
+      rejectReady = reject;
+    });
+    // Rejections are surfaced through `ready` and `call()`
+    readyPromise.catch(() => undefined);
+  };
+
+  const replayPending = (): void => {
+    for (const item of pending.values()) {
+      if (!item.replay) continue;
+      try {
+        worker.postMessage(item.replay);
+      } catch (error) {
+        item.reject(toError(error, 'Failed to send message to worker'));
+      }
+    }
+  };
+
+  const handleMessage = (message: WorkerHostMessage): void => {
+    if (!message || typeof message !== 'object') return;
+    switch (message.type) {
+      case 'ready':
+        ready = true;
+        everReady = true;
+        readySince = Date.now();
+        status = WorkerStatus.Ready;
+        resolveReady();
+        if (restarting) {
+          restarting = false;
+          replayPending();
+          callEventHandlers('restart', restarts);
+        }
+        if (active === 0) scheduleSleep();
+        startHeartbeat();
+        return;
+      case 'init-error': {
+        restarting = false;
+        status = WorkerStatus.InitError;
+        void decodeError(message.error, 'Failed to initialize worker').then(
+          (error) => {
+            rejectReady(error);
+            rejectAll(error);
+          },
+        );
+        return;
+      }
+      case 'result': {
+        const callback = pending.get(message.id);
+        if (!callback) return;
+        pending.delete(message.id);
+        if (message.ok) {
+          // Decode return value
+          (callback.handle === undefined
+            ? decodeMethodReturn(
+                cls.prototype,
+                callback.method,
+                message.result,
+                remoteHandles,
+              )
+            : decodeValue(message.result, null, null, {
+                path: ['return'],
+                handles: remoteHandles,
+              })
+          )
+            .then((decoded) => callback.resolve(decoded))
+            .catch((error) => callback.reject(error));
+        } else {
+          const failed = message as Extract<WorkerResultMessage, { ok: false }>;
+          decodeError(failed.error, 'Worker method execution failed')
+            .then((error) =>
+              callback.reject(
+                appendCallSite(
+                  error,
+                  callback.callSite,
+                  `${className}.${callback.method} called from the main thread`,
+                ),
+              ),
+            )
+            .catch((error) => callback.reject(error));
+        }
+        return;
+      }
+      case 'stream-next':
+      case 'stream-end':
+      case 'stream-error':
+        streams.get(message.id)?.push(message);
+        return;
+      case 'event': {
+        if (!workerEvents.has(message.method)) return;
+        const { method, args } = message;
+        eventDecoding = eventDecoding
+          .then(async () => {
+            const decodedArgs = await decodeMethodArgs(
+              cls.prototype,
+              method,
+              Array.isArray(args) ? args : [],
+            );
+            // The decorated method itself runs on the main thread first
+            const local = (instance as Record<string, unknown>)[method];
+            if (typeof local === 'function') {
+              try {
+                await local.apply(instance, decodedArgs);
+              } catch (error) {
+                console.error(`Error in @WorkerEvent() ${method}:`, error);
+              }
+            }
+            events.emit(method, decodedArgs);
+          })
+          .catch((error) => {
+            console.error(`Failed to decode @WorkerEvent() ${method}:`, error);
+          });
+        return;
+      }
+      case 'callback-invoke': {
+        const callbackInvoke = message as WorkerCallbackInvokeMessage;
+        const { handle } = callbackInvoke;
+        if (handle !== undefined) {
+          if (!callbackHandles.has(handle)) {
+            worker.postMessage({
+              type: 'callback-result',
+              id: callbackInvoke.id,
+              ok: false,
+              error: {
+                message: `Callback passed to ${callbackInvoke.method} has been released`,
+              },
+            } satisfies WorkerInvokeMessage);
+            return;
+          }
+        } else if (!workerCallbacks.has(callbackInvoke.method)) {
+          worker.postMessage({
+            type: 'callback-result',
+            id: callbackInvoke.id,
+            ok: false,
+            error: {
+              message: `Method is not decorated with @WorkerCallback(): ${callbackInvoke.method}`,
+            },
+          } satisfies WorkerInvokeMessage);
+          return;
+        }
+
+        // @TransportCallback() functions have no type metadata, so their
+        // values go through the untyped transport
+        const method =
+          handle !== undefined
+            ? callbackHandles.get(handle)!.fn
+            : (instance as Record<string, unknown>)[callbackInvoke.method];
+        if (typeof method !== 'function') {
+          worker.postMessage({
+            type: 'callback-result',
+            id: callbackInvoke.id,
+            ok: false,
+            error: {
+              message: `Worker callback not found: ${callbackInvoke.method}`,
+            },
+          } satisfies WorkerInvokeMessage);
+          return;
+        }
+
+        Promise.resolve()
+          .then(async () => {
+            // Decode arguments
+            const args = Array.isArray(callbackInvoke.args)
+              ? callbackInvoke.args
+              : [];
+            if (handle !== undefined) {
+              const decodedArgs: unknown[] = await decodeValue(
+                args,
+                null,
+                null,
+                {
+                  path: ['callbackArgs'],
+                  handles: { trackStructArray },
+                },
+              );
+              return method(...decodedArgs);
+            }
+            const decodedArgs = await decodeMethodArgs(
+              cls.prototype,
+              callbackInvoke.method,
+              args,
+              { trackStructArray },
+            );
+            return method.apply(instance, decodedArgs);
+          })
+          .then(async (result: unknown) => {
+            // Encode return value
+            const transferList: TransferListItem[] = [];
+            const encodedResult =
+              handle !== undefined
+                ? await encodeValue(result, null, null, {
+                    path: ['return'],
+                    handles: { transferList, trackStructArray },
+                  })
+                : await encodeMethodReturn(
+                    cls.prototype,
+                    callbackInvoke.method,
+                    result,
+                    { transferList, trackStructArray },
+                  );
+            worker.postMessage(
+              {
+                type: 'callback-result',
+                id: callbackInvoke.id,
+                ok: true,
+                result: encodedResult,
+              } satisfies WorkerInvokeMessage,
+              transferList,
+            );
+          })
+          .catch(async (error: unknown) => {
+            const callbackError: Extract<
+              WorkerCallbackResultMessage,
+              { ok: false }
+            > = {
+              type: 'callback-result',
+              id: callbackInvoke.id,
+              ok: false,
+              error: await encodeError(error),
+            };
+            worker.postMessage(callbackError satisfies WorkerInvokeMessage);
+          });
+        return;
+      }
+      case 'callback-release':
+        callbackHandles.delete(message.handle);
+        return;
+      case 'peer-closed':
+        peerConnections -= 1;
+        // connectPeer() cleared the idle timer of a worker without calls
+        if (active === 0 && ready) scheduleSleep();
+        return;
+      case 'pong': {
+        const item = pings.get(message.id);
+        if (!item) return;
+        pings.delete(message.id);
+        item.resolve(performance.now() - item.sentAt);
+        return;
+      }
+      case 'finalized':
+        // Worker is about to exit due to @WorkerFinalize
+        if (!finalized) {
+          finalized = true;
+          closed = true;
+          status = WorkerStatus.Finalized;
+          clearTimeout(idleTimer);
+          stopHeartbeat();
+          rejectAll(new Error('Worker has been finalized'));
+          events.close();
+        }
+        return;
+      default:
+        return;
+    }
+  };
+
+  const sendPing = (): Promise<number> =>
+    new Promise((resolve, reject) => {
+      const id = nextPingId;
+      nextPingId += 1;
+      pings.set(id, { sentAt: performance.now(), resolve, reject });
+      try {
+        worker.postMessage({ type: 'ping', id } satisfies WorkerInvokeMessage);
+      } catch (error) {
+        pings.delete(id);
+        reject(toError(error, 'Failed to send message to worker'));
+      }
+    });
+
+  let heartbeatTimer: NodeJS.Timeout | undefined;
+  const stopHeartbeat = (): void => {
+    clearInterval(heartbeatTimer);
+    heartbeatTimer = undefined;
+  };
+
+  /**
+   * Ping a ready worker every `heartbeatInterval`. A thread whose event loop
+   * is blocked leaves the ping unanswered; after `maxMissedHeartbeats`
+   * intervals it is reported Unresponsive until it answers again.
+   */
+  const startHeartbeat = (): void => {
+    stopHeartbeat();
+    const interval = heartbeat.heartbeatInterval;
+    if (interval === undefined) return;
+    let answered = true;
+    let missed = 0;
+    const timer: NodeJS.Timeout = setInterval(() => {
+      if (!answered) {
+        missed += 1;
+        if (
+          missed === heartbeat.maxMissedHeartbeats &&
+          status === WorkerStatus.Ready
+        ) {
+          status = WorkerStatus.Unresponsive;
+          callEventHandlers('unresponsive', missed);
+        }
+        return;
+      }
+      answered = false;
+      sendPing().then(
+        () => {
+          if (heartbeatTimer !== timer) return;
+          answered = true;
+          missed = 0;
+          if (status === WorkerStatus.Unresponsive) {
+            status = WorkerStatus.Ready;
+          }
+        },
+        () => undefined,
+      );
+    }, interval);
+    heartbeatTimer = timer;
+  };
+
+  /**
+   * Start a worker thread with the shared workerData.
+   * Events from threads replaced by a later spawn() are ignored.
+   */
+  const spawn = (): void => {
+    stopHeartbeat();
+    generation += 1;
+    // Peers of the previous thread lost their connection with it
+    peerConnections = 0;
+    const current = generation;
+    const isCurrent = () => current === generation;
+
+    status = restarting ? WorkerStatus.Restarting : WorkerStatus.Initializing;
+
+    // The previous thread may have been stopped in the middle of a write
+    if (workerData.typedStruct) {
+      resetWriteSequence(workerData.typedStruct.writeSequence);
+    }
+
+    worker = inline
+      ? // Same events and postMessage() as a Worker
+        (new InlineWorker(cls, workerData) as unknown as Worker)
+      : createWorkerThread(workerData, threadOptions);
+    // A restarted worker decodes the arguments of the first spawn, so it
+    // has to catch up with the arrays grown since
+    structArrayIds.forEach((id) => {
+      const update = getSharedStructArrayUpdate(id);
+      if (update) postSharedStructArrayUpdate(update);
+    });
+
+    worker.on('message', (message: WorkerHostMessage) => {
+      if (isCurrent()) handleMessage(message);
+    });
+
+    worker.on('error', (error) => {
+      if (!isCurrent()) return;
+      status = WorkerStatus.WorkerError;
+      callEventHandlers('error', error);
+      const err =
+        (error as NodeJS.ErrnoException)?.code === 'ERR_WORKER_OUT_OF_MEMORY'
+          ? new WorkerResourceLimitError(
+              className,
+              threadOptions.resourceLimits ?? {},
+              error,
+            )
+          : toError(error, 'Worker error');
+      // An uncaught error is followed by an exit with code 1
+      if (shouldRestart(1)) {
+        crashError = err;
+        return;
+      }
+      if (!ready) rejectReady(err);
+      rejectAll(err);
+    });
+
+    worker.on('exit', (code) => {
+      if (!isCurrent()) return;
+      clearTimeout(idleTimer);
+      stopHeartbeat();
+      const willRestart = shouldRestart(code);
+      if (!finalized) {
+        status = willRestart ? WorkerStatus.Restarting : WorkerStatus.Exited;
+      }
+      callEventHandlers('exit', code);
+      if (willRestart) {
+        scheduleRestart(
+          crashError ?? new Error(`Worker exited (code: ${code})`),
+        );
+        return;
+      }
+      unsubscribeGrow();
+      if (!ready && !finalized) {
+        rejectReady(new Error(`Worker exited before ready (code: ${code})`));
+      }
+      if (!finalized) {
+        rejectAll(new Error(`Worker exited (code: ${code})`));
+      }
+    });
+
+    worker.on('online', () => {
+      if (isCurrent()) callEventHandlers('online');
+    });
+
+    worker.on('messageerror', (error) => {
+      if (isCurrent()) callEventHandlers('messageerror', error);
+    });
+  };
+
+  /**
+   * Whether an unexpected exit should be followed by a restart.
+   * A worker that never became ready is not restarted, so that
+   * initialization failures still reject `initWorker()`.
+   */
+  const shouldRestart = (code: number): boolean => {
+    if (finalized || !everReady) return false;
+    if (restarts >= supervision.maxRestarts) return false;
+    return (
+      supervision.restart === 'always' ||
+      (supervision.restart === 'on-failure' && code !== 0)
+    );
+  };
+
+  /**
+   * Start a new thread after an exponential backoff.
+   * Calls made in the meantime wait for the new thread to become ready.
+   */
+  const scheduleRestart = (reason: Error): void => {
+    crashError = undefined;
+    rejectInFlight(reason);
+    if (ready && Date.now() - readySince >= supervision.maxRestartDelay) {
+      consecutiveCrashes = 0;
+    }
+    const delay = Math.min(
+      supervision.restartDelay * 2 ** consecutiveCrashes,
+      supervision.maxRestartDelay,
+    );
+    consecutiveCrashes += 1;
+    restarts += 1;
+    restarting = true;
+    // A crash while the restarted worker initializes keeps the calls
+    // already waiting for it
+    if (ready) resetReady();
+    restartTimer = setTimeout(() => {
+      restartTimer = undefined;
+      if (!finalized) spawn();
+    }, delay);
+  };
+
+  /**
+   * Terminate the current thread and start a fresh one.
+   * Calls still in flight on the old thread are rejected with `reason`,
+   * except idempotent calls, which are replayed.
+   */
+  const restart = async (reason: Error): Promise<void> => {
+    if (finalized) return;
+    const previous = worker;
+    clearTimeout(restartTimer);
+    restartTimer = undefined;
+    rejectInFlight(reason);
+    restarts += 1;
+    restarting = true;
+    if (ready) resetReady();
+    stopHeartbeat();
+    // Events of the old thread are ignored, and the new one starts once the
+    // old one can no longer write to the shared memory
+    generation += 1;
+    status = WorkerStatus.Restarting;
+    await previous.terminate();
+    if (!finalized) spawn();
+  };
+
+  // Buffers of grown SharedStructArrays follow the same channel as calls, so
+  // calls made after grow() see the new buffer
+  const postSharedStructArrayUpdate = (
+    update: SharedStructArrayUpdate,
+  ): void => {
+    try {
+      worker.postMessage({
+        type: 'shared-array-update',
+        update,
+      } satisfies WorkerInvokeMessage);
+    } catch {
+      // Worker is already exiting.
+    }
+  };
+  const unsubscribeGrow = onSharedStructArrayGrow((update) => {
+    if (structArrayIds.has(update.id)) postSharedStructArrayUpdate(update);
+  });
+
+  // Objects of the thread still used from the outside: @TransportRemote()
+  // proxies, kept @TransportCallback() functions and connected peers
+  const inUse = (): boolean =>
+    callbackHandles.size > 0 ||
+    peerConnections > 0 ||
+    [...remoteTargets].some((target) => target.generation === generation);
+
+  /**
+   * Let an idle thread run its @OnWorkerShutdown() methods and exit by
+   * itself, or terminate it after IDLE_SHUTDOWN_TIMEOUT.
+   */
+  const retire = async (previous: Worker): Promise<void> => {
+    let timer: NodeJS.Timeout | undefined;
+    const exited = new Promise<void>((resolve) => {
+      previous.once('exit', () => resolve());
+    });
+    const timedOut = new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, IDLE_SHUTDOWN_TIMEOUT);
+    });
+    try {
+      previous.postMessage({
+        type: 'finalize',
+        drain: true,
+      } satisfies WorkerInvokeMessage);
+      await Promise.race([exited, timedOut]);
+    } catch {
+      // Worker is already exiting.
+    } finally {
+      clearTimeout(timer);
+    }
+    await previous.terminate();
+  };
+
+  /**
+   * Shut down the thread of a worker without calls in flight. The shared
+   * memory and the main-thread instance stay, and the next call starts a
+   * new thread, which runs the @WorkerInit() methods again.
+   */
+  const sleep = (): void => {
+    idleTimer = undefined;
+    if (finalized || sleeping || !ready || active > 0) return;
+    // Checked again after another idle period
+    if (inUse()) {
+      scheduleSleep();
+      return;
+    }
+    const previous = worker;
+    sleeping = true;
+    stopHeartbeat();
+    // Events of the idle thread are ignored
+    generation += 1;
+    status = WorkerStatus.Idle;
+    resetReady();
+    retiring = retire(previous);
+  };
+
+  const scheduleSleep = (): void => {
+    clearTimeout(idleTimer);
+    idleTimer = undefined;
+    if (idleTimeout === undefined || finalized || sleeping) return;
+    idleTimer = setTimeout(sleep, idleTimeout);
+  };
+
+  const wake = (): void => {
+    clearTimeout(idleTimer);
+    idleTimer = undefined;
+    if (!sleeping || finalized) return;
+    sleeping = false;
+    status = WorkerStatus.Initializing;
+    // The new thread starts once the idle one has exited
+    void retiring.then(() => {
+      if (!finalized) spawn();
+    });
+  };
+
+  resetReady();
+  spawn();
+
+  const invoke = async (
+    name: string,
+    methodArgs: unknown[],
+    options: WorkerCallOptions,
+    remote?: RemoteTarget,
+  ): Promise<unknown> => {
+    if (finalized)
+      return Promise.reject(new Error('Worker has been finalized'));
+    if (remote && remote.generation !== generation) {
+      return Promise.reject(
+        new Error(
+          `Remote object is no longer available after a worker restart: ${name}`,
+        ),
+      );
+    }
+    const callSite = captureCallSite();
+
+    // A @WorkerAbortSignal() parameter is filled in by the worker, so it is
+    // never transported; a signal passed in its place cancels the call
+    let signal = options.signal;
+    const signalIndex = remote
+      ? -1
+      : getWorkerAbortSignalIndex(cls.prototype, name);
+    if (signalIndex >= 0 && signalIndex < methodArgs.length) {
+      const passed = methodArgs[signalIndex];
+      if (!signal && passed instanceof AbortSignal) signal = passed;
+      methodArgs = [...methodArgs];
+      methodArgs[signalIndex] = undefined;
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new WorkerAbortError(name, signal.reason));
+    }
+
+    const id = nextCallId;
+    nextCallId += 1;
+
+    // Encode arguments
+    const transferList: TransferListItem[] = [];
+    let encodedArgs: unknown[];
+    try {
+      // Remote objects carry no type metadata, so their arguments go through
+      // the untyped transport
+      encodedArgs = remote
+        ? await encodeValue(methodArgs, null, null, {
+            path: ['remoteArgs'],
+            handles: { transferList, trackStructArray },
+          })
+        : await encodeMethodArgs(cls.prototype, name, methodArgs, {
+            ...callbackHandlesFor(id),
+            transferList,
+          });
+      await readyPromise;
+      // Finalized while the arguments were being encoded
+      if (closed) throw new Error('Worker has been finalized');
+    } catch (error) {
+      releaseCallbackHandles(id);
+      throw error;
+    }
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        releaseCallbackHandles(id);
+        reject(new WorkerAbortError(name, signal.reason));
+        return;
+      }
+      const timeout =
+        options.timeout ??
+        (remote
+          ? registration.timeout
+          : (getWorkerMethodOptions(cls.prototype, name).timeout ??
+            registration.timeout));
+      let timer: NodeJS.Timeout | undefined;
+      const cancel = (): void => {
+        try {
+          worker.postMessage({
+            type: 'cancel',
+            id,
+          } satisfies WorkerInvokeMessage);
+        } catch {
+          // Worker is already exiting.
+        }
+      };
+      const onAbort = (): void => {
+        if (!pending.delete(id)) return;
+        clearTimeout(timer);
+        reject(new WorkerAbortError(name, signal?.reason));
+        cancel();
+      };
+      const settle =
+        <T>(fn: (value: T) => void) =>
+        (value: T): void => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+          fn(value);
+        };
+      const message: WorkerInvokeMessage = {
+        type: 'invoke',
+        id,
+        method: name,
+        args: encodedArgs,
+        handle: remote?.handle,
+      };
+      pending.set(id, {
+        resolve: settle(resolve),
+        reject: settle(reject),
+        method: name,
+        handle: remote?.handle,
+        callSite,
+        // Transferred values are detached once sent, so they cannot be replayed
+        replay:
+          !remote &&
+          transferList.length === 0 &&
+          getWorkerMethodOptions(cls.prototype, name).idempotent
+            ? message
+            : undefined,
+      });
+      signal?.addEventListener('abort', onAbort, { once: true });
+      if (timeout !== undefined && timeout > 0) {
+        timer = setTimeout(() => {
+          if (!pending.delete(id)) return;
+          signal?.removeEventListener('abort', onAbort);
+          reject(new WorkerTimeoutError(className, name, timeout));
+          if (registration.onTimeout === 'restart') {
+            void restart(
+              new Error(
+                `Worker restarted after ${className}.${name} timed out`,
+              ),
+            );
+          } else {
+            cancel();
+          }
+        }, timeout);
+      }
+      try {
+        worker.postMessage(message, transferList);
+      } catch (error) {
+        pending.delete(id);
+        releaseCallbackHandles(id);
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        reject(toError(error, 'Failed to send message to worker'));
+      }
+    });
+  };
+
+  // Resolves a draining finalize once no call is active
+  let onIdle: (() => void) | undefined;
+  const beginActive = (): void => {
+    active += 1;
+    wake();
+  };
+  const endActive = (): void => {
+    active -= 1;
+    if (active === 0) {
+      onIdle?.();
+      if (ready) scheduleSleep();
+    }
+  };
+
+  // Count calls from dispatch until settle, including argument encoding,
+  // so that schedulers see a call as busy as soon as it is issued
+  const call = async (
+    name: string,
+    methodArgs: unknown[],
+    options: WorkerCallOptions = {},
+    remote?: RemoteTarget,
+  ): Promise<unknown> => {
+    beginActive();
+    try {
+      return await invoke(name, methodArgs, options, remote);
+    } finally {
+      endActive();
+    }
+  };
+
+  const stream = async function* (
+    name: string,
+    methodArgs: unknown[],
+    options: WorkerCallOptions = {},
+  ): AsyncGenerator<unknown, void, undefined> {
+    if (finalized) throw new Error('Worker has been finalized');
+    const { signal } = options;
+    if (signal?.aborted) throw new WorkerAbortError(name, signal.reason);
+
+    const callSite = captureCallSite();
+    beginActive();
+    const buffer: unknown[] = [];
+    let done = false;
+    let failure: { error: unknown } | null = null;
+    let wake = (): void => {};
+    let consumed = 0;
+    let id = 0;
+    // Chunks are decoded asynchronously; chain them to keep their order
+    let decoding = Promise.resolve();
+
+    const fail = (error: unknown): void => {
+      if (done || failure) return;
+      failure = { error };
+      wake();
+    };
+    const post = (message: WorkerInvokeMessage): void => {
+      try {
+        worker.postMessage(message);
+      } catch {
+        // Worker is already exiting.
+      }
+    };
+    const onAbort = (): void => {
+      fail(new WorkerAbortError(name, signal?.reason));
+    };
+
+    try {
+      // Listen before the first await, so that an abort while the arguments
+      // are encoded or the worker starts is not missed
+      signal?.addEventListener('abort', onAbort, { once: true });
+      id = nextCallId;
+      nextCallId += 1;
+      const transferList: TransferListItem[] = [];
+      const encodedArgs = await encodeMethodArgs(
+        cls.prototype,
+        name,
+        methodArgs,
+        { ...callbackHandlesFor(id), transferList },
+      );
+      await readyPromise;
+      if (failure) throw (failure as { error: unknown }).error;
+
+      streams.set(id, {
+        method: name,
+        push: (message) => {
+          decoding = decoding.then(async () => {
+            if (message.type === 'stream-next') {
+              buffer.push(
+                await decodeMethodReturn(
+                  cls.prototype,
+                  name,
+                  message.value,
+                  remoteHandles,
+                ),
+              );
+            } else if (message.type === 'stream-end') {
+              done = true;
+            } else {
+              fail(
+                appendCallSite(
+                  await decodeError(message.error, 'Worker stream failed'),
+                  callSite,
+                  `${className}.${name} called from the main thread`,
+                ),
+              );
+            }
+            wake();
+          });
+          decoding.catch(fail);
+        },
+        fail,
+      });
+      worker.postMessage(
+        {
+          type: 'invoke',
+          id,
+          method: name,
+          args: encodedArgs,
+          stream: true,
+        } satisfies WorkerInvokeMessage,
+        transferList,
+      );
+      post({ type: 'stream-pull', id, credit: STREAM_HIGH_WATER_MARK });
+
+      for (;;) {
+        if (failure) throw (failure as { error: unknown }).error;
+        if (buffer.length > 0) {
+          const value = buffer.shift();
+          consumed += 1;
+          // Grant credit back in batches to limit message traffic
+          if (consumed % (STREAM_HIGH_WATER_MARK / 2) === 0) {
+            post({
+              type: 'stream-pull',
+              id,
+              credit: STREAM_HIGH_WATER_MARK / 2,
+            });
+          }
+          yield value;
+          continue;
+        }
+        if (done) return;
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+      }
+    } finally {
+      endActive();
+      signal?.removeEventListener('abort', onAbort);
+      // Handles of a call that never reached the worker are released here;
+      // the worker releases the others when the stream ends
+      if (!streams.has(id)) releaseCallbackHandles(id);
+      if (streams.delete(id) && !done) {
+        // Consumer stopped early or the call failed on this side:
+        // close the generator in the worker
+        post({ type: 'cancel', id });
+      }
+    }
+  };
+
+  const ping = async (): Promise<number> => {
+    if (finalized) throw new Error('Worker has been finalized');
+    beginActive();
+    try {
+      await readyPromise;
+      if (closed) throw new Error('Worker has been finalized');
+      return await sendPing();
+    } finally {
+      endActive();
+    }
+  };
+
+  const connectPeer = (): MessagePort => {
+    if (finalized) throw new Error('Worker has been finalized');
+    wake();
+    const { port1, port2 } = new MessageChannel();
+    peerConnections += 1;
+    worker.postMessage(
+      { type: 'peer-connect', port: port2 } satisfies WorkerInvokeMessage,
+      [port2],
+    );
+    return port1;
+  };
+
+  /**
+   * Wait for the calls in flight to settle, then let the worker run its
+   * @OnWorkerShutdown() methods and exit by itself. Gives up after
+   * `timeout` milliseconds.
+   */
+  const drain = async (timeout?: number): Promise<void> => {
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<'timeout'>((resolve) => {
+      if (timeout !== undefined) {
+        timer = setTimeout(() => resolve('timeout'), timeout);
+      }
+    });
+    const exited = new Promise<'exit'>((resolve) => {
+      worker.once('exit', () => resolve('exit'));
+    });
+    const settled = new Promise<'idle'>((resolve) => {
+      if (active === 0) resolve('idle');
+      else onIdle = () => resolve('idle');
+    });
+    try {
+      if ((await Promise.race([settled, exited, timedOut])) !== 'idle') return;
+      worker.postMessage({
+        type: 'finalize',
+        drain: true,
+      } satisfies WorkerInvokeMessage);
+      await Promise.race([exited, timedOut]);
+    } catch {
+      // Worker is already exiting.
+    } finally {
+      clearTimeout(timer);
+      onIdle = undefined;
+    }
+  };
+
+  const finalize = async ({
+    mode = 'immediate',
+    timeout,
+  }: WorkerFinalizeOptions = {}): Promise<void> => {
+    if (finalized) return;
+    finalized = true;
+    status = WorkerStatus.Finalized;
+    clearTimeout(restartTimer);
+    clearTimeout(idleTimer);
+    stopHeartbeat();
+    unsubscribeGrow();
+    const error = new Error('Worker has been finalized');
+    if (!ready) rejectReady(error);
+    if (mode === 'drain' && ready) await drain(timeout);
+    closed = true;
+    rejectAll(error);
+    events.close();
+    try {
+      worker.postMessage({ type: 'finalize' } satisfies WorkerInvokeMessage);
+    } catch {
+      // Worker is already exiting.
+    }
+    await worker.terminate();
+  };
+
+  return {
+    get ready() {
+      return readyPromise;
+    },
+    call,
+    stream,
+    finalize,
+    status: () => status,
+    activeCount: () => active,
+    ping,
+    connectPeer,
+  };
+};
+
+/**
+ * Expose every @WorkerMethod() on the main-thread instance through the
+ * dispatcher, plus `withOptions()` which returns a view of the instance whose
+ * worker methods carry per-call options such as an AbortSignal or a timeout.
+ * `async *` methods are exposed as async iterables.
+ */
+export const defineWorkerMethodProxies = (
+  instance: object,
+  methods: string[],
+  dispatcher: Pick<WorkerConnection, 'call' | 'stream'>,
+): void => {
+  const proto = Object.getPrototypeOf(instance);
+  const defineMethods = (target: object, options?: WorkerCallOptions) => {
+    methods.forEach((method) => {
+      const streaming = isWorkerStreamMethod(proto, method);
+      Object.defineProperty(target, method, {
+        configurable: true,
+        enumerable: false,
+        writable: true,
+        value: (...methodArgs: unknown[]) =>
+          streaming
+            ? dispatcher.stream(method, methodArgs, options)
+            : dispatcher.call(method, methodArgs, options),
+      });
+    });
+  };
+
+  defineMethods(instance);
+
+  Object.defineProperty(instance, 'withOptions', {
+    configurable: true,
+    enumerable: false,
+    writable: false,
+    value: (options: WorkerCallOptions) => {
+      const view = Object.create(instance);
+      defineMethods(view, options);
+      return view;
+    },
+  });
+};
@@ -0,0 +1,36 @@
+import { AnyClass } from 'nfkit';
+import { MessagePort } from 'node:worker_threads';
+
+/**
+ * Opens a MessageChannel to the worker thread behind a main-thread instance.
+ * The other end of the returned port is sent to that worker.
+ */
+export type PeerConnector = {
+  classId: string;
+  connect: () => MessagePort;
+};
+
+// Main-thread instances created by initWorker() and initWorkerPool()
+const peerConnectors = new WeakMap<object, PeerConnector>();
+
+// Every class registered with @DefineWorker() in this thread, by id
+const peerClasses = new Map<string, AnyClass>();
+
+export const registerPeerConnector = (
+  instance: object,
+  connector: PeerConnector,
+): void => {
+  peerConnectors.set(instance, connector);
+};
+
+export const getPeerConnector = (value: unknown): PeerConnector | undefined =>
+  typeof value === 'object' && value !== null
+    ? peerConnectors.get(value)
+    : undefined;
+
+export const registerPeerClass = (id: string, cls: AnyClass): void => {
+  peerClasses.set(id, cls);
+};
+
+export const getPeerClass = (id: string): AnyClass | undefined =>
+  peerClasses.get(id);
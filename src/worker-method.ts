@@ -1,7 +1,15 @@
-import { Metadata, reflector, WorkerEventName } from './utility/metadata';
+import {
+  Metadata,
+  reflector,
+  WorkerCallbackOptions,
+  WorkerEventName,
+  WorkerMethodOptions,
+} from './utility/metadata';
 import { safeScanTypedStructClass } from './utility/typed-struct-registry';
 
-export const WorkerMethod = (): MethodDecorator => {
+export const WorkerMethod = (
+  options: WorkerMethodOptions = {},
+): MethodDecorator => {
   return (target, propertyKey) => {
     // Scan parameter types and return type
     try {
@@ -23,6 +31,7 @@ export const WorkerMethod = (): MethodDecorator => {
       // Ignore errors
     }
 
+    Metadata.set('workerMethodOptions', options)(target, propertyKey);
     return Metadata.set(
       'workerMethod',
       true,
@@ -31,8 +40,21 @@ export const WorkerMethod = (): MethodDecorator => {
   };
 };
 
-export const WorkerCallback = (): MethodDecorator =>
-  Metadata.set('workerCallback', true, 'workerCallbackKeys');
+export const WorkerCallback = (
+  options: WorkerCallbackOptions = {},
+): MethodDecorator => {
+  return (target, propertyKey) => {
+    Metadata.set('workerCallbackOptions', options)(target, propertyKey);
+    return Metadata.set(
+      'workerCallback',
+      true,
+      'workerCallbackKeys',
+    )(target, propertyKey);
+  };
+};
+
+export const WorkerEvent = (): MethodDecorator =>
+  Metadata.set('workerEmitter', true, 'workerEmitterKeys');
 
 export const OnWorkerEvent = (event: WorkerEventName): MethodDecorator =>
   Metadata.appendUnique('workerEvent', event, 'workerEventKeys');
@@ -41,22 +63,61 @@ export const OnWorkerExit = (): MethodDecorator => OnWorkerEvent('exit');
 
 export const OnWorkerError = (): MethodDecorator => OnWorkerEvent('error');
 
+export const OnWorkerRestart = (): MethodDecorator => OnWorkerEvent('restart');
+
+export const OnWorkerUnresponsive = (): MethodDecorator =>
+  OnWorkerEvent('unresponsive');
+
 export const WorkerInit = (): MethodDecorator =>
   Metadata.set('workerInit', true, 'workerInitKeys');
 
 export const WorkerFinalize = (): MethodDecorator =>
   Metadata.set('workerFinalize', true, 'workerFinalizeKeys');
 
+/**
+ * Run the method in the worker thread when the worker is finalized with
+ * `finalize({ mode: 'drain' })`, after the calls in flight have settled.
+ */
+export const OnWorkerShutdown = (): MethodDecorator =>
+  Metadata.set('workerShutdown', true, 'workerShutdownKeys');
+
+export const WorkerAbortSignal = (): ParameterDecorator =>
+  Metadata.param('workerAbortSignalParams', true, 'workerAbortSignalKeys');
+
 export const getWorkerMethods = (target: any): string[] =>
   reflector
     .getArray('workerMethodKeys', target)
     .filter((key) => reflector.get('workerMethod', target, key));
 
+/**
+ * Whether a @WorkerMethod() is an `async *` method whose chunks are streamed
+ */
+export const isWorkerStreamMethod = (target: any, key: string): boolean =>
+  Object.prototype.toString.call(target?.[key]) ===
+  '[object AsyncGeneratorFunction]';
+
+export const getWorkerMethodOptions = (
+  target: any,
+  key: string,
+): WorkerMethodOptions =>
+  reflector.get('workerMethodOptions', target, key) ?? {};
+
 export const getWorkerCallbacks = (target: any): string[] =>
   reflector
     .getArray('workerCallbackKeys', target)
     .filter((key) => reflector.get('workerCallback', target, key));
 
+export const getWorkerCallbackOptions = (
+  target: any,
+  key: string,
+): WorkerCallbackOptions =>
+  reflector.get('workerCallbackOptions', target, key) ?? {};
+
+export const getWorkerEvents = (target: any): string[] =>
+  reflector
+    .getArray('workerEmitterKeys', target)
+    .filter((key) => reflector.get('workerEmitter', target, key));
+
 export const getWorkerInits = (target: any): string[] =>
   reflector
     .getArray('workerInitKeys', target)
@@ -67,6 +128,11 @@ export const getWorkerFinalizes = (target: any): string[] =>
     .getArray('workerFinalizeKeys', target)
     .filter((key) => reflector.get('workerFinalize', target, key));
 
+export const getWorkerShutdowns = (target: any): string[] =>
+  reflector
+    .getArray('workerShutdownKeys', target)
+    .filter((key) => reflector.get('workerShutdown', target, key));
+
 export const getWorkerEventHandlers = (target: any): Map<string, string[]> => {
   const map = new Map<string, string[]>();
   const keys = reflector.getArray('workerEventKeys', target);
@@ -80,3 +146,11 @@ export const getWorkerEventHandlers = (target: any): Map<string, string[]> => {
   }
   return map;
 };
+
+export const getWorkerAbortSignalIndex = (
+  target: any,
+  method: string,
+): number =>
+  reflector
+    .getArray('workerAbortSignalParams', target, method)
+    .findIndex((value) => value === true);
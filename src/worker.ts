@@ -1,5 +1,11 @@
 import { AnyClass } from 'nfkit';
-import { isMainThread, parentPort, workerData } from 'node:worker_threads';
+import {
+  isMainThread,
+  MessagePort,
+  parentPort,
+  TransferListItem,
+  workerData,
+} from 'node:worker_threads';
 import { fileURLToPath } from 'node:url';
 import { MetadataRegistry } from 'typed-reflector';
 import {
@@ -7,27 +13,52 @@ import {
   getWorkerMethods,
   getWorkerInits,
   getWorkerFinalizes,
+  getWorkerShutdowns,
+  getWorkerAbortSignalIndex,
+  getWorkerCallbackOptions,
+  getWorkerEvents,
 } from './worker-method';
+import { WorkerTimeoutError } from './utility/errors';
 import { findTypedStructClass } from './utility/find-typed-struct-cls';
 import { resolveWorkerFilePath } from './utility/resolve-worker-file-path';
-import { AnyStructConstructor } from './utility/types';
+import {
+  AnyStructConstructor,
+  WorkerHeartbeatOptions,
+  WorkerRestartOptions,
+  WorkerThreadOptions,
+} from './utility/types';
 import {
   encodeMethodArgs,
   decodeMethodReturn,
   encodeMethodReturn,
   decodeMethodArgs,
+  encodeError,
+  decodeError,
+  encodeValue,
+  decodeValue,
+  EncodedError,
+  TransportHandles,
 } from './utility/transport';
+import {
+  registerCallbackHandle,
+  releaseUnretainedCallbacks,
+} from './retain-callback';
+import {
+  applySharedStructArrayUpdate,
+  SharedStructArrayUpdate,
+} from './shared-struct-array';
+import { appendCallSite, captureCallSite } from './utility/transport-error';
 import {
   createTypedStructInstance,
   safeScanTypedStructClass,
 } from './utility/typed-struct-registry';
 import { decodeCtorArgs } from './utility/transport';
-
-type SerializedError = {
-  message: string;
-  name?: string;
-  stack?: string;
-};
+import { registerWriteSequence } from './shared-snapshot';
+import {
+  notifySharedChange,
+  registerSharedChangeCounter,
+} from './utility/shared-change';
+import { getPeerClass, registerPeerClass } from './utility/worker-peer';
 
 export type WorkerInvokeMessage =
   | {
@@ -35,10 +66,43 @@ export type WorkerInvokeMessage =
       id: number;
       method: string;
       args: unknown[];
+      stream?: boolean;
+      // Set when calling a method of a @TransportRemote() object
+      handle?: number;
     }
   | WorkerCallbackResultMessage
+  | {
+      type: 'cancel';
+      id: number;
+    }
+  | {
+      type: 'stream-pull';
+      id: number;
+      credit: number;
+    }
+  | {
+      type: 'remote-release';
+      handle: number;
+    }
+  | {
+      type: 'shared-array-update';
+      update: SharedStructArrayUpdate;
+    }
+  | {
+      // A worker instance was passed to another worker, which calls this
+      // one through the port
+      type: 'peer-connect';
+      port: MessagePort;
+    }
   | {
       type: 'finalize';
+      // Let the calls in flight settle and run @OnWorkerShutdown() first
+      drain?: boolean;
+    }
+  | {
+      // Answered right away by a thread whose event loop is not blocked
+      type: 'ping';
+      id: number;
     };
 
 export type WorkerResultMessage =
@@ -52,7 +116,7 @@ export type WorkerResultMessage =
       type: 'result';
       id: number;
       ok: false;
-      error: SerializedError;
+      error: EncodedError;
     };
 
 export type WorkerHostMessage =
@@ -61,19 +125,56 @@ export type WorkerHostMessage =
     }
   | {
       type: 'init-error';
-      error: SerializedError;
+      error: EncodedError;
     }
   | {
       type: 'finalized';
     }
   | WorkerCallbackInvokeMessage
-  | WorkerResultMessage;
+  | WorkerResultMessage
+  | WorkerStreamMessage
+  | WorkerEventMessage
+  | {
+      type: 'callback-release';
+      handle: number;
+    }
+  | {
+      type: 'pong';
+      id: number;
+    }
+  | {
+      type: 'peer-closed';
+    };
+
+export type WorkerStreamMessage =
+  | {
+      type: 'stream-next';
+      id: number;
+      value: unknown;
+    }
+  | {
+      type: 'stream-end';
+      id: number;
+    }
+  | {
+      type: 'stream-error';
+      id: number;
+      error: EncodedError;
+    };
+
+export type WorkerEventMessage = {
+  type: 'event';
+  method: string;
+  args: unknown[];
+};
 
 export type WorkerCallbackInvokeMessage = {
   type: 'callback-invoke';
   id: number;
   method: string;
   args: unknown[];
+  // Set when invoking a @TransportCallback() function passed to `method`
+  handle?: number;
 };
 
 export type WorkerCallbackResultMessage =
@@ -87,7 +188,7 @@ export type WorkerCallbackResultMessage =
       type: 'callback-result';
       id: number;
       ok: false;
-      error: SerializedError;
+      error: EncodedError;
     };
 
 export type WorkerDataPayload = {
@@ -96,6 +197,10 @@ export type WorkerDataPayload = {
   ctorArgs: unknown[];
   typedStruct: {
     sharedBuffer: SharedArrayBuffer;
+    // Sequence of sharedWrite() for snapshot()
+    writeSequence: SharedArrayBuffer;
+    // Present with `sharedChanges: true`
+    changeCounter?: SharedArrayBuffer;
   } | null;
 };
 
@@ -114,39 +219,58 @@ export type WorkerRegistration = {
   id: string;
   filePath: string;
   typedStruct: WorkerTypedStructRegistration | null;
+  timeout?: number;
+  onTimeout: WorkerTimeoutAction;
+  restart: WorkerRestartOptions;
+  thread: WorkerThreadOptions;
+  heartbeat: WorkerHeartbeatOptions;
+  sharedChanges: boolean;
+};
+
+/**
+ * Where the worker side of a class runs: the parentPort of a worker thread,
+ * or one end of a MessageChannel for inline workers.
+ */
+export type WorkerRuntimeHost = {
+  port: MessagePort;
+  exit: (code: number) => void;
 };
 
 const WorkerMetadataRegistry = new MetadataRegistry();
 const WORKER_REGISTRATION_KEY = Symbol('yuzuthread.worker-registration');
 const STARTED = new Set<string>();
 
-const getOwnWorkerRegistration = (
-  cls: AnyClass,
-): WorkerRegistration | null => {
+const getOwnWorkerRegistration = (cls: AnyClass): WorkerRegistration | null => {
   return (
-    (WorkerMetadataRegistry.getOwnMetadata(
-      WORKER_REGISTRATION_KEY,
-      cls,
-    ) as WorkerRegistration | undefined) ?? null
+    (WorkerMetadataRegistry.getOwnMetadata(WORKER_REGISTRATION_KEY, cls) as
+      WorkerRegistration | undefined) ?? null
   );
 };
 
-type WorkerOptions = {
-  filePath?: string;
-  moduleUrl?: string;
-  id?: string;
-};
+export type WorkerTimeoutAction = 'reject' | 'restart';
 
-const serializeError = (error: unknown): SerializedError => {
-  if (error instanceof Error) {
-    return {
-      message: error.message,
-      name: error.name,
-      stack: error.stack,
-    };
-  }
-  return { message: String(error) };
-};
+export type DefineWorkerOptions = WorkerRestartOptions &
+  WorkerThreadOptions &
+  WorkerHeartbeatOptions & {
+    filePath?: string;
+    moduleUrl?: string;
+    id?: string;
+    /**
+     * Default timeout in milliseconds for @WorkerMethod() and @WorkerCallback()
+     * calls that do not declare their own.
+     */
+    timeout?: number;
+    /**
+     * What to do when a @WorkerMethod() call times out: only reject the call
+     * (default), or also terminate the worker thread and start a new one.
+     */
+    onTimeout?: WorkerTimeoutAction;
+    /**
+     * Count changes to the shared memory of a typed-struct worker class, so
+     * that the main thread can use `waitForChange()` and `onSharedChange()`.
+     */
+    sharedChanges?: boolean;
+  };
 
 const callsites = (): NodeJS.CallSite[] => {
   const errorCtr = Error as ErrorConstructor & {
@@ -229,6 +353,12 @@ const createTypedStructRegistration = (
   return typedStruct;
 };
 
+const isAsyncIterator = (value: unknown): value is AsyncGenerator<unknown> =>
+  !!value &&
+  typeof (value as AsyncGenerator<unknown>).next === 'function' &&
+  typeof (value as AsyncGenerator<unknown>)[Symbol.asyncIterator] ===
+    'function';
+
 const invokeWorkerMethod = async (
   instance: Record<string, unknown>,
   method: string,
@@ -241,13 +371,105 @@ const invokeWorkerMethod = async (
   return target.apply(instance, args);
 };
 
+/**
+ * Turn the port of a worker instance passed as a @WorkerMethod() argument
+ * into an object exposing its @WorkerMethod()s, called directly on the
+ * other worker thread. Calls are rejected once either thread exits.
+ */
+const createPeerProxy = (classId: string, port: MessagePort): object => {
+  const peerCls = getPeerClass(classId);
+  if (!peerCls) {
+    throw new Error(
+      `Worker class ${classId} is not loaded in this thread, import it to call it directly`,
+    );
+  }
+  const peerName = peerCls.name || 'AnonymousClass';
+  const pending = new Map<
+    number,
+    {
+      resolve: (value: unknown) => void;
+      reject: (reason?: unknown) => void;
+      method: string;
+      callSite: { stack?: string };
+    }
+  >();
+  let nextId = 1;
+  let closed = false;
+
+  // Only keep the thread alive while calls are in flight
+  port.unref();
+  port.on('message', (message: WorkerResultMessage) => {
+    const call = pending.get(message.id);
+    if (!call) return;
+    pending.delete(message.id);
+    if (pending.size === 0) port.unref();
+    if (message.ok) {
+      decodeMethodReturn(peerCls.prototype, call.method, message.result)
+        .then((decoded) => call.resolve(decoded))
+        .catch((error) => call.reject(error));
+    } else {
+      const failed = message as Extract<WorkerResultMessage, { ok: false }>;
+      decodeError(failed.error, 'Peer worker call failed')
+        .then((error) =>
+          call.reject(
+            appendCallSite(
+              error,
+              call.callSite,
+              `${peerName}.${call.method} called from a peer worker`,
+            ),
+          ),
+        )
+        .catch((error) => call.reject(error));
+    }
+  });
+  port.on('close', () => {
+    closed = true;
+    pending.forEach((call) =>
+      call.reject(new Error(`Peer worker has exited: ${peerName}`)),
+    );
+    pending.clear();
+  });
+
+  const call = async (method: string, args: unknown[]): Promise<unknown> => {
+    if (closed) throw new Error(`Peer worker has exited: ${peerName}`);
+    const callSite = captureCallSite();
+    const transferList: TransferListItem[] = [];
+    const encodedArgs = await encodeMethodArgs(
+      peerCls.prototype,
+      method,
+      args,
+      { transferList },
+    );
+    return new Promise((resolve, reject) => {
+      const id = nextId;
+      nextId += 1;
+      pending.set(id, { resolve, reject, method, callSite });
+      port.ref();
+      port.postMessage(
+        {
+          type: 'invoke',
+          id,
+          method,
+          args: encodedArgs,
+        } satisfies WorkerInvokeMessage,
+        transferList,
+      );
+    });
+  };
+
+  const proxy: Record<string, unknown> = {};
+  getWorkerMethods(peerCls.prototype).forEach((method) => {
+    proxy[method] = (...args: unknown[]) => call(method, args);
+  });
+  return proxy;
+};
+
 const setupWorkerRuntime = async (
   cls: AnyClass,
   data: WorkerDataPayload,
   registration: WorkerRegistration,
+  { port, exit }: WorkerRuntimeHost,
 ): Promise<void> => {
-  if (!parentPort) throw new Error('Worker parentPort is not available');
-
   // Decode constructor arguments to restore prototypes
   // For @Shared parameters, we'll replace them later from SharedArrayBuffer
   const decodedArgs = await decodeCtorArgs(cls, data.ctorArgs);
@@ -257,22 +479,45 @@ const setupWorkerRuntime = async (
     // Use createTypedStructInstance for typed-struct classes
     const sharedBuffer = Buffer.from(data.typedStruct.sharedBuffer);
     instance = createTypedStructInstance(cls, sharedBuffer, false, decodedArgs);
+    registerWriteSequence(instance, data.typedStruct.writeSequence);
+    if (data.typedStruct.changeCounter) {
+      registerSharedChangeCounter(instance, data.typedStruct.changeCounter);
+    }
   } else {
     // Regular class construction
     instance = new cls(...decodedArgs);
   }
   const workerMethods = new Set(getWorkerMethods(cls.prototype));
   const workerCallbacks = new Set(getWorkerCallbacks(cls.prototype));
+  const workerEvents = getWorkerEvents(cls.prototype);
   const workerInits = getWorkerInits(cls.prototype);
   const workerFinalizes = new Set(getWorkerFinalizes(cls.prototype));
+  const workerShutdowns = getWorkerShutdowns(cls.prototype);
+  // Messages being handled, awaited by a draining finalize
+  const running = new Set<Promise<void>>();
+  const track = (task: Promise<void>): void => {
+    running.add(task);
+    void task.finally(() => running.delete(task));
+  };
+  // Count the changes a call may have made to the shared memory
+  const bumpSharedChange = () => {
+    if (data.typedStruct?.changeCounter) notifySharedChange(instance);
+  };
   const pendingCallbacks = new Map<
     number,
     {
       resolve: (value: unknown) => void;
       reject: (reason?: unknown) => void;
       method: string;
+      handle?: number;
+      callSite: { stack?: string };
     }
   >();
+  const abortControllers = new Map<number, AbortController>();
+  const streams = new Map<
+    number,
+    { credit: number; cancelled: boolean; wake: () => void }
+  >();
   let nextCallbackId = 1;
   let shouldFinalize = false;
 
@@ -281,12 +526,10 @@ const setupWorkerRuntime = async (
     if (shouldFinalize) return;
     shouldFinalize = true;
     setImmediate(() => {
-      if (parentPort) {
-        parentPort.postMessage({
-          type: 'finalized',
-        } satisfies WorkerHostMessage);
-      }
-      process.exit(0);
+      port.postMessage({
+        type: 'finalized',
+      } satisfies WorkerHostMessage);
+      exit(0);
     });
   };
 
@@ -336,26 +579,75 @@ const setupWorkerRuntime = async (
     }
   }
 
+  /**
+   * Call a @WorkerCallback() method, or with `handle`, a @TransportCallback()
+   * function passed to `method`. Handle calls have no type metadata, so their
+   * values go through the untyped transport.
+   */
   const callMainCallback = async (
     method: string,
     args: unknown[],
+    handle?: number,
   ): Promise<unknown> => {
-    if (!parentPort)
-      return Promise.reject(new Error('Worker parentPort is not available'));
+    const callSite = captureCallSite();
 
     // Encode arguments
-    const encodedArgs = await encodeMethodArgs(cls.prototype, method, args);
+    const transferList: TransferListItem[] = [];
+    const encodedArgs =
+      handle === undefined
+        ? await encodeMethodArgs(cls.prototype, method, args, {
+            transferList,
+          })
+        : await encodeValue(args, null, null, {
+            path: ['callbackArgs'],
+            handles: { transferList },
+          });
+
+    const timeout =
+      handle === undefined
+        ? (getWorkerCallbackOptions(cls.prototype, method).timeout ??
+          registration.timeout)
+        : registration.timeout;
 
     return new Promise((resolve, reject) => {
       const id = nextCallbackId;
       nextCallbackId += 1;
-      pendingCallbacks.set(id, { resolve, reject, method });
-      parentPort.postMessage({
-        type: 'callback-invoke',
-        id,
+      let timer: NodeJS.Timeout | undefined;
+      const settle =
+        <T>(fn: (value: T) => void) =>
+        (value: T): void => {
+          clearTimeout(timer);
+          fn(value);
+        };
+      pendingCallbacks.set(id, {
+        resolve: settle(resolve),
+        reject: settle(reject),
         method,
-        args: encodedArgs,
-      } satisfies WorkerHostMessage);
+        handle,
+        callSite,
+      });
+      if (timeout !== undefined && timeout > 0) {
+        timer = setTimeout(() => {
+          if (!pendingCallbacks.delete(id)) return;
+          reject(
+            new WorkerTimeoutError(
+              cls.name || 'AnonymousClass',
+              method,
+              timeout,
+            ),
+          );
+        }, timeout);
+      }
+      port.postMessage(
+        {
+          type: 'callback-invoke',
+          id,
+          method,
+          args: encodedArgs,
+          handle,
+        } satisfies WorkerHostMessage,
+        transferList,
+      );
     });
   };
 
@@ -368,7 +660,242 @@ const setupWorkerRuntime = async (
     });
   });
 
-  parentPort.on('message', async (message: WorkerInvokeMessage) => {
+  /**
+   * Turn a @TransportCallback() handle into a function that calls back into
+   * the main thread until it is released.
+   */
+  const createCallbackProxy = (
+    handle: number,
+    method: string,
+  ): ((...args: unknown[]) => Promise<unknown>) => {
+    let released = false;
+    const proxy = (...args: unknown[]) =>
+      released
+        ? Promise.reject(
+            new Error(`Callback passed to ${method} has been released`),
+          )
+        : callMainCallback(method, args, handle);
+    registerCallbackHandle(proxy, {
+      retained: false,
+      release: () => {
+        if (released) return;
+        released = true;
+        port.postMessage({
+          type: 'callback-release',
+          handle,
+        } satisfies WorkerHostMessage);
+      },
+    });
+    return proxy;
+  };
+
+  // @TransportRemote() objects handed out to the main thread
+  const remoteObjects = new Map<number, object>();
+  let nextRemoteId = 1;
+  const remoteHandles: TransportHandles = {
+    registerRemote: (value) => {
+      const id = nextRemoteId;
+      nextRemoteId += 1;
+      remoteObjects.set(id, value);
+      return id;
+    },
+  };
+
+  /**
+   * Call a method of a @TransportRemote() object. Remote objects carry no
+   * type metadata, so values go through the untyped transport.
+   */
+  const invokeRemote = async (
+    handle: number,
+    method: string,
+    args: unknown[],
+    transferList: TransferListItem[],
+  ): Promise<unknown> => {
+    const target = remoteObjects.get(handle) as
+      Record<string, unknown> | undefined;
+    if (!target) {
+      throw new Error(`Remote object has been released: ${method}`);
+    }
+    const fn = target[method];
+    if (typeof fn !== 'function') {
+      throw new TypeError(`Remote object has no method: ${method}`);
+    }
+    const decodedArgs: unknown[] = await decodeValue(args, null, null, {
+      path: ['remoteArgs'],
+    });
+    const result = await fn.apply(target, decodedArgs);
+    return encodeValue(result, null, null, {
+      path: ['return'],
+      handles: { ...remoteHandles, transferList },
+    });
+  };
+
+  // @WorkerEvent() methods notify the main thread without waiting for it;
+  // encoding is chained so that events arrive in the order they are emitted
+  let eventQueue = Promise.resolve();
+  workerEvents.forEach((method) => {
+    Object.defineProperty(instance, method, {
+      configurable: true,
+      enumerable: false,
+      writable: true,
+      value: (...methodArgs: unknown[]): void => {
+        eventQueue = eventQueue
+          .then(async () => {
+            const transferList: TransferListItem[] = [];
+            const encodedArgs = await encodeMethodArgs(
+              cls.prototype,
+              method,
+              methodArgs,
+              { transferList },
+            );
+            port.postMessage(
+              {
+                type: 'event',
+                method,
+                args: encodedArgs,
+              } satisfies WorkerHostMessage,
+              transferList,
+            );
+          })
+          .catch((error) => {
+            console.error(`Error in @WorkerEvent() ${method}:`, error);
+          });
+      },
+    });
+  });
+
+  /**
+   * Drive an async generator returned by a @WorkerMethod().
+   * A chunk is only produced while the main thread has granted credit,
+   * and cancellation closes the generator through return().
+   */
+  const runStream = async (
+    id: number,
+    method: string,
+    iterator: AsyncGenerator<unknown>,
+  ): Promise<void> => {
+    const state = { credit: 0, cancelled: false, wake: () => {} };
+    streams.set(id, state);
+    try {
+      for (;;) {
+        while (state.credit <= 0 && !state.cancelled) {
+          await new Promise<void>((resolve) => {
+            state.wake = resolve;
+          });
+        }
+        if (state.cancelled) {
+          await iterator.return(undefined);
+          return;
+        }
+        const next = await iterator.next();
+        if (next.done) {
+          port.postMessage({
+            type: 'stream-end',
+            id,
+          } satisfies WorkerHostMessage);
+          return;
+        }
+        state.credit -= 1;
+        const transferList: TransferListItem[] = [];
+        const value = await encodeMethodReturn(
+          cls.prototype,
+          method,
+          next.value,
+          { ...remoteHandles, transferList },
+        );
+        port.postMessage(
+          {
+            type: 'stream-next',
+            id,
+            value,
+          } satisfies WorkerHostMessage,
+          transferList,
+        );
+        bumpSharedChange();
+      }
+    } finally {
+      streams.delete(id);
+    }
+  };
+
+  /**
+   * Serve @WorkerMethod() calls from another worker holding a proxy of this
+   * instance. Streams and @TransportCallback() arguments are not supported.
+   */
+  const handlePeerMessage = async (
+    port: MessagePort,
+    message: WorkerInvokeMessage,
+  ): Promise<void> => {
+    if (!message || message.type !== 'invoke') return;
+    try {
+      if (!workerMethods.has(message.method)) {
+        throw new Error(
+          `Method is not decorated with @WorkerMethod(): ${message.method}`,
+        );
+      }
+      const decodedArgs = await decodeMethodArgs(
+        cls.prototype,
+        message.method,
+        Array.isArray(message.args) ? message.args : [],
+        { resolvePeer: createPeerProxy },
+      );
+      const signalIndex = getWorkerAbortSignalIndex(
+        cls.prototype,
+        message.method,
+      );
+      if (signalIndex >= 0) {
+        decodedArgs[signalIndex] = new AbortController().signal;
+      }
+      const result = await invokeWorkerMethod(
+        instance as Record<string, unknown>,
+        message.method,
+        decodedArgs,
+      );
+      if (isAsyncIterator(result)) {
+        await result.return(undefined);
+        throw new TypeError(
+          `Streaming methods cannot be called from a peer worker: ${message.method}`,
+        );
+      }
+      const transferList: TransferListItem[] = [];
+      port.postMessage(
+        {
+          type: 'result',
+          id: message.id,
+          ok: true,
+          result: await encodeMethodReturn(
+            cls.prototype,
+            message.method,
+            result,
+            { transferList },
+          ),
+        } satisfies WorkerResultMessage,
+        transferList,
+      );
+    } catch (error) {
+      port.postMessage({
+        type: 'result',
+        id: message.id,
+        ok: false,
+        error: await encodeError(error),
+      } satisfies WorkerResultMessage);
+    } finally {
+      bumpSharedChange();
+    }
+  };
+
+  // The host keeps this thread out of idle shutdown until the peer is gone
+  const servePeer = (peer: MessagePort): void => {
+    peer.unref();
+    peer.on('message', (message: WorkerInvokeMessage) =>
+      track(handlePeerMessage(peer, message)),
+    );
+    peer.once('close', () => {
+      port.postMessage({ type: 'peer-closed' } satisfies WorkerHostMessage);
+    });
+  };
+
+  const handleMessage = async (message: WorkerInvokeMessage): Promise<void> => {
     if (!message || typeof message !== 'object') return;
     if (message.type === 'callback-result') {
       const pending = pendingCallbacks.get(message.id);
@@ -376,7 +903,10 @@ const setupWorkerRuntime = async (
       pendingCallbacks.delete(message.id);
       if (message.ok) {
         // Decode return value
-        decodeMethodReturn(cls.prototype, pending.method, message.result)
+        (pending.handle === undefined
+          ? decodeMethodReturn(cls.prototype, pending.method, message.result)
+          : decodeValue(message.result, null, null, { path: ['return'] })
+        )
           .then((decoded) => pending.resolve(decoded))
           .catch((error) => pending.reject(error));
       } else {
@@ -384,18 +914,79 @@ const setupWorkerRuntime = async (
           WorkerCallbackResultMessage,
           { ok: false }
         >;
-        pending.reject(new Error(failed.error.message));
+        decodeError(failed.error, 'Worker callback failed')
+          .then((error) =>
+            pending.reject(
+              appendCallSite(
+                error,
+                pending.callSite,
+                `${cls.name || 'AnonymousClass'}.${pending.method} called from the worker`,
+              ),
+            ),
+          )
+          .catch((error) => pending.reject(error));
+      }
+      return;
+    }
+    if (message.type === 'cancel') {
+      abortControllers.get(message.id)?.abort();
+      const stream = streams.get(message.id);
+      if (stream) {
+        stream.cancelled = true;
+        stream.wake();
+      }
+      return;
+    }
+    if (message.type === 'stream-pull') {
+      const stream = streams.get(message.id);
+      if (stream) {
+        stream.credit += message.credit;
+        stream.wake();
       }
       return;
     }
-    if (message.type === 'finalize') {
-      parentPort.postMessage({ type: 'finalized' } satisfies WorkerHostMessage);
-      process.exit(0);
+    if (message.type === 'remote-release') {
+      remoteObjects.delete(message.handle);
+      return;
+    }
+    if (message.type === 'shared-array-update') {
+      applySharedStructArrayUpdate(message.update);
+      return;
+    }
+    if (message.type === 'peer-connect') {
+      servePeer(message.port);
       return;
     }
     if (message.type !== 'invoke') return;
+    if (message.handle !== undefined) {
+      try {
+        const transferList: TransferListItem[] = [];
+        port.postMessage(
+          {
+            type: 'result',
+            id: message.id,
+            ok: true,
+            result: await invokeRemote(
+              message.handle,
+              message.method,
+              Array.isArray(message.args) ? message.args : [],
+              transferList,
+            ),
+          } satisfies WorkerHostMessage,
+          transferList,
+        );
+      } catch (error) {
+        port.postMessage({
+          type: 'result',
+          id: message.id,
+          ok: false,
+          error: await encodeError(error),
+        } satisfies WorkerHostMessage);
+      }
+      return;
+    }
     if (!workerMethods.has(message.method)) {
-      parentPort.postMessage({
+      port.postMessage({
         type: 'result',
         id: message.id,
         ok: false,
@@ -405,41 +996,131 @@ const setupWorkerRuntime = async (
       } satisfies WorkerHostMessage);
       return;
     }
+    const abortController = new AbortController();
+    abortControllers.set(message.id, abortController);
+    const callbacks: object[] = [];
     try {
       // Decode arguments
       const decodedArgs = await decodeMethodArgs(
         cls.prototype,
         message.method,
         Array.isArray(message.args) ? message.args : [],
+        {
+          resolveCallback: (handle) => {
+            const proxy = createCallbackProxy(handle, message.method);
+            callbacks.push(proxy);
+            return proxy;
+          },
+          resolvePeer: createPeerProxy,
+        },
       );
 
+      // Inject the per-call AbortSignal for @WorkerAbortSignal() parameters
+      const signalIndex = getWorkerAbortSignalIndex(
+        cls.prototype,
+        message.method,
+      );
+      if (signalIndex >= 0) {
+        decodedArgs[signalIndex] = abortController.signal;
+      }
+
       const result = await invokeWorkerMethod(
         instance as Record<string, unknown>,
         message.method,
         decodedArgs,
       );
 
+      if (message.stream) {
+        if (!isAsyncIterator(result)) {
+          throw new TypeError(
+            `Worker method did not return an async iterator: ${message.method}`,
+          );
+        }
+        await runStream(message.id, message.method, result);
+        return;
+      }
+
       // Encode return value
+      const transferList: TransferListItem[] = [];
       const encodedResult = await encodeMethodReturn(
         cls.prototype,
         message.method,
         result,
+        { ...remoteHandles, transferList },
       );
 
-      parentPort.postMessage({
-        type: 'result',
-        id: message.id,
-        ok: true,
-        result: encodedResult,
-      } satisfies WorkerHostMessage);
+      port.postMessage(
+        {
+          type: 'result',
+          id: message.id,
+          ok: true,
+          result: encodedResult,
+        } satisfies WorkerHostMessage,
+        transferList,
+      );
     } catch (error) {
-      parentPort.postMessage({
-        type: 'result',
+      port.postMessage(
+        message.stream
+          ? {
+              type: 'stream-error',
+              id: message.id,
+              error: await encodeError(error),
+            }
+          : {
+              type: 'result',
+              id: message.id,
+              ok: false,
+              error: await encodeError(error),
+            },
+      );
+    } finally {
+      abortControllers.delete(message.id);
+      releaseUnretainedCallbacks(callbacks);
+      bumpSharedChange();
+    }
+  };
+
+  /**
+   * Wait for the messages being handled, including calls to the main thread
+   * they make, then run the @OnWorkerShutdown() methods and exit.
+   */
+  const shutdown = async (): Promise<void> => {
+    while (running.size > 0) {
+      await Promise.allSettled([...running]);
+    }
+    for (const method of workerShutdowns) {
+      try {
+        await invokeWorkerMethod(
+          instance as Record<string, unknown>,
+          method,
+          [],
+        );
+      } catch (error) {
+        console.error(`Error in @OnWorkerShutdown() ${method}:`, error);
+      }
+    }
+    port.postMessage({ type: 'finalized' } satisfies WorkerHostMessage);
+    exit(0);
+  };
+
+  port.on('message', (message: WorkerInvokeMessage) => {
+    if (message?.type === 'ping') {
+      port.postMessage({
+        type: 'pong',
         id: message.id,
-        ok: false,
-        error: serializeError(error),
       } satisfies WorkerHostMessage);
+      return;
+    }
+    if (message?.type === 'finalize') {
+      if (message.drain) {
+        void shutdown();
+        return;
+      }
+      port.postMessage({ type: 'finalized' } satisfies WorkerHostMessage);
+      exit(0);
+      return;
     }
+    track(handleMessage(message));
   });
 
   // Run all @WorkerInit methods before sending ready
@@ -452,14 +1133,30 @@ const setupWorkerRuntime = async (
       );
     }
   } catch (error) {
-    parentPort.postMessage({
+    port.postMessage({
       type: 'init-error',
-      error: serializeError(error),
+      error: await encodeError(error),
     } satisfies WorkerHostMessage);
     return;
   }
 
-  parentPort.postMessage({ type: 'ready' } satisfies WorkerHostMessage);
+  port.postMessage({ type: 'ready' } satisfies WorkerHostMessage);
+};
+
+const startWorkerRuntime = (
+  cls: AnyClass,
+  data: WorkerDataPayload,
+  registration: WorkerRegistration,
+  host: WorkerRuntimeHost,
+): void => {
+  void setupWorkerRuntime(cls, data, registration, host).catch(
+    async (error) => {
+      host.port.postMessage({
+        type: 'init-error',
+        error: await encodeError(error),
+      } satisfies WorkerHostMessage);
+    },
+  );
 };
 
 const tryStartWorkerForClass = (
@@ -473,15 +1170,33 @@ const tryStartWorkerForClass = (
   if (STARTED.has(registration.id)) return;
   STARTED.add(registration.id);
 
-  void setupWorkerRuntime(target, data, registration).catch((error) => {
-    parentPort.postMessage({
-      type: 'init-error',
-      error: serializeError(error),
-    } satisfies WorkerHostMessage);
+  startWorkerRuntime(target, data, registration, {
+    port: parentPort,
+    exit: (code) => process.exit(code),
   });
 };
 
-export const DefineWorker = (options: WorkerOptions = {}): ClassDecorator => {
+/**
+ * Run the worker side of a class in this thread, talking to the host
+ * through `host.port` as if it were the parentPort of a worker thread.
+ */
+export const startInlineWorkerRuntime = (
+  cls: AnyClass,
+  data: WorkerDataPayload,
+  host: WorkerRuntimeHost,
+): void => {
+  const registration = getOwnWorkerRegistration(cls);
+  if (!registration) {
+    throw new Error(
+      `@DefineWorker() is required for ${cls.name || 'AnonymousClass'}`,
+    );
+  }
+  startWorkerRuntime(cls, data, registration, host);
+};
+
+export const DefineWorker = (
+  options: DefineWorkerOptions = {},
+): ClassDecorator => {
   const resolvedFilePath = resolveWorkerFilePath(options, getCurrentFile());
 
   return (target) => {
@@ -528,16 +1243,45 @@ export const DefineWorker = (options: WorkerOptions = {}): ClassDecorator => {
     }
 
     const typedStruct = createTypedStructRegistration(cls);
+    if (options.sharedChanges && !typedStruct) {
+      throw new TypeError(
+        `@DefineWorker({ sharedChanges: true }) requires a typed-struct class: ${cls.name}`,
+      );
+    }
     const registration: WorkerRegistration = {
       id: options.id ?? `${resolvedFilePath}#${cls.name || 'AnonymousClass'}`,
       filePath: resolvedFilePath,
       typedStruct,
+      timeout: options.timeout,
+      onTimeout: options.onTimeout ?? 'reject',
+      restart: {
+        restart: options.restart,
+        maxRestarts: options.maxRestarts,
+        restartDelay: options.restartDelay,
+        maxRestartDelay: options.maxRestartDelay,
+      },
+      thread: {
+        resourceLimits: options.resourceLimits,
+        env: options.env,
+        execArgv: options.execArgv,
+        argv: options.argv,
+        name: options.name,
+        trackUnmanagedFds: options.trackUnmanagedFds,
+        stdout: options.stdout,
+        stderr: options.stderr,
+      },
+      heartbeat: {
+        heartbeatInterval: options.heartbeatInterval,
+        maxMissedHeartbeats: options.maxMissedHeartbeats,
+      },
+      sharedChanges: options.sharedChanges ?? false,
     };
     WorkerMetadataRegistry.defineMetadata(
       WORKER_REGISTRATION_KEY,
       registration,
       cls,
     );
+    registerPeerClass(registration.id, cls);
     tryStartWorkerForClass(cls, registration);
   };
 };
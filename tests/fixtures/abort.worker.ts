@@ -0,0 +1,26 @@
+import { DefineWorker, WorkerMethod, WorkerAbortSignal } from '../..';
+
+@DefineWorker()
+export class AbortWorker {
+  abortObserved = false;
+
+  @WorkerMethod()
+  async waitForAbort(limit: number, @WorkerAbortSignal() signal?: AbortSignal) {
+    const start = Date.now();
+    while (!signal?.aborted && Date.now() - start < limit) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    this.abortObserved = !!signal?.aborted;
+    return this.abortObserved;
+  }
+
+  @WorkerMethod()
+  wasAbortObserved() {
+    return this.abortObserved;
+  }
+
+  @WorkerMethod()
+  async echo(value: string) {
+    return value;
+  }
+}
@@ -1,4 +1,9 @@
-import { DefineWorker, WorkerMethod, TransportType } from '../..';
+import {
+  DefineWorker,
+  WorkerMethod,
+  TransportClass,
+  TransportType,
+} from '../..';
 
 export class Node {
   @TransportType(() => Node)
@@ -15,3 +20,73 @@ export class CircularRefWorker {
     return new Node(node.value * 2);
   }
 }
+
+export class TreeNode {
+  @TransportType(() => TreeNode)
+  parent?: TreeNode;
+
+  @TransportType(() => [TreeNode])
+  children: TreeNode[] = [];
+
+  constructor(public name: string) {}
+
+  add(child: TreeNode) {
+    child.parent = this;
+    this.children.push(child);
+    return child;
+  }
+}
+
+@TransportClass('CircularRef.Item')
+export class Item {
+  constructor(public name: string) {}
+}
+
+@TransportClass('CircularRef.Pair')
+export class Pair {
+  // Untyped: detected by their registered classes
+  constructor(
+    public first: unknown,
+    public second: unknown,
+  ) {}
+}
+
+export class Holder {
+  // Untyped: plain objects holding registered instances
+  items: unknown[] = [];
+}
+
+@DefineWorker()
+export class GraphWorker {
+  // Appends a child to every node, checking that parents survived transport
+  @WorkerMethod()
+  @TransportType(() => TreeNode, { preserveRefs: true })
+  async grow(
+    @TransportType(() => TreeNode, { preserveRefs: true }) root: TreeNode,
+  ): Promise<TreeNode> {
+    const visit = (node: TreeNode) => {
+      node.children.forEach((child) => {
+        if (child.parent !== node) throw new Error('Parent reference lost');
+        visit(child);
+      });
+      node.add(new TreeNode(`${node.name}+`));
+    };
+    visit(root);
+    return root;
+  }
+
+  @WorkerMethod()
+  async isSameNode(
+    @TransportType(() => [TreeNode]) nodes: TreeNode[],
+  ): Promise<boolean> {
+    return nodes[0] === nodes[1] && nodes[0] instanceof TreeNode;
+  }
+
+  @WorkerMethod()
+  async sharesItem(
+    @TransportType(() => Holder, { preserveRefs: true }) holder: Holder,
+  ): Promise<boolean> {
+    const [p, q] = holder.items as [{ x: Pair }, { y: Pair }];
+    return p.x.second instanceof Item && p.x.second === q.y.second;
+  }
+}
@@ -0,0 +1,71 @@
+import { Struct } from 'typed-struct';
+import { DefineWorker, TransportType, WorkerMethod } from '../..';
+
+const PointBase = new Struct('ContainerPoint')
+  .Int32LE('x')
+  .Int32LE('y')
+  .compile();
+
+export class Point extends PointBase {
+  declare x: number;
+  declare y: number;
+
+  length() {
+    return Math.hypot(this.x, this.y);
+  }
+}
+
+export class Tag {
+  constructor(
+    public name: string,
+    public createdAt: Date,
+  ) {}
+
+  get label() {
+    return `#${this.name}`;
+  }
+}
+
+@DefineWorker()
+export class ContainerWorker {
+  @WorkerMethod()
+  @TransportType(() => [Map, String, Tag])
+  async renameTags(
+    @TransportType(() => [Map, String, Tag]) tags: Map<string, Tag>,
+  ): Promise<Map<string, Tag>> {
+    for (const [key, tag] of tags) {
+      if (!(tag instanceof Tag)) throw new Error('Tag prototype lost');
+      tag.name = key.toUpperCase();
+    }
+    return tags;
+  }
+
+  @WorkerMethod()
+  @TransportType(() => [Set, Tag])
+  async collectTags(
+    @TransportType(() => [Object, Tag]) tags: Record<string, Tag>,
+  ): Promise<Set<Tag>> {
+    return new Set(
+      Object.values(tags).map((tag) => new Tag(tag.label, tag.createdAt)),
+    );
+  }
+
+  @WorkerMethod()
+  @TransportType(() => [Array, Tag, [Map, String, [Point]]])
+  async describe(
+    @TransportType(() => [Array, Tag, Point]) pair: [Tag, Point],
+  ): Promise<[Tag, Map<string, Point[]>]> {
+    const [tag, point] = pair;
+    return [tag, new Map([[tag.label, [point, point]]])];
+  }
+
+  // Writes through shared memory held in a Map
+  @WorkerMethod()
+  async movePoints(
+    @TransportType(() => [Map, String, Point]) points: Map<string, Point>,
+    @TransportType(() => [Set, Buffer]) buffers: Set<Buffer>,
+  ): Promise<void> {
+    for (const point of points.values()) point.x += 1;
+    for (const buffer of buffers) buffer[0] = 42;
+  }
+}
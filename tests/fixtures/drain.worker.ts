@@ -0,0 +1,40 @@
+import {
+  DefineWorker,
+  OnWorkerShutdown,
+  WorkerCallback,
+  WorkerMethod,
+} from '../..';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+@DefineWorker()
+export class DrainWorker {
+  records: string[] = [];
+
+  @WorkerCallback()
+  record(entry: string) {
+    this.records.push(entry);
+  }
+
+  @WorkerMethod()
+  async slow(ms: number) {
+    await sleep(ms);
+    return ms;
+  }
+
+  @WorkerMethod()
+  async slowWithCallback(ms: number) {
+    await sleep(ms);
+    await this.record(`callback after ${ms}ms`);
+  }
+
+  @WorkerMethod()
+  async hang() {
+    await new Promise(() => undefined);
+  }
+
+  @OnWorkerShutdown()
+  async cleanup() {
+    await this.record('shutdown');
+  }
+}
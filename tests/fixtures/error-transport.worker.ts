@@ -0,0 +1,93 @@
+import {
+  DefineWorker,
+  WorkerMethod,
+  WorkerCallback,
+  TransportError,
+  TransportType,
+} from '../..';
+
+export class ErrorDetail {
+  constructor(
+    public path: string,
+    public hint: string,
+  ) {}
+
+  describe() {
+    return `${this.path}: ${this.hint}`;
+  }
+}
+
+@TransportError()
+export class ValidationError extends Error {
+  @TransportType(() => ErrorDetail)
+  detail?: ErrorDetail;
+
+  constructor(
+    message: string,
+    public code: number,
+  ) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+export class UnregisteredError extends TypeError {}
+
+@DefineWorker()
+export class ErrorTransportWorker {
+  @WorkerMethod()
+  async throwValidation() {
+    const error = new ValidationError('invalid input', 42);
+    error.detail = new ErrorDetail('user.name', 'required');
+    throw error;
+  }
+
+  @WorkerMethod()
+  async throwWithCause() {
+    const cause = new ValidationError('inner failure', 7);
+    throw Object.assign(new Error('outer failure'), { cause });
+  }
+
+  @WorkerMethod()
+  async throwAggregate() {
+    throw new AggregateError(
+      [new ValidationError('first', 1), new RangeError('second')],
+      'many failures',
+    );
+  }
+
+  @WorkerMethod()
+  async throwUnregistered() {
+    throw new UnregisteredError('fell back');
+  }
+
+  @WorkerMethod()
+  async throwString() {
+    throw 'plain string';
+  }
+
+  @WorkerMethod()
+  async returnError() {
+    return new ValidationError('returned', 3);
+  }
+
+  @WorkerCallback()
+  async validateOnMain(): Promise<void> {
+    throw new ValidationError('rejected on main', 9);
+  }
+
+  @WorkerMethod()
+  async inspectCallbackError() {
+    try {
+      await this.validateOnMain();
+      return null;
+    } catch (error) {
+      return {
+        isValidationError: error instanceof ValidationError,
+        name: (error as Error).name,
+        code: (error as ValidationError).code,
+        stack: (error as Error).stack,
+      };
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { DefineWorker, WorkerMethod, WorkerEvent, TransportType } from '../..';
+
+export class Progress {
+  constructor(
+    public done: number,
+    public total: number,
+  ) {}
+
+  ratio() {
+    return this.done / this.total;
+  }
+}
+
+@DefineWorker()
+export class EventChannelWorker {
+  received: number[] = [];
+  lastChunk = '';
+
+  @WorkerEvent()
+  progress(@TransportType(() => Progress) progress: Progress) {
+    // Runs on the main thread when the worker emits the event
+    this.received.push(progress.done);
+  }
+
+  @WorkerEvent()
+  chunk(data: Buffer, label: string) {
+    this.lastChunk = `${label}:${data.length}`;
+  }
+
+  @WorkerMethod()
+  async run(total: number) {
+    for (let done = 1; done <= total; done++) {
+      this.progress(new Progress(done, total));
+    }
+    return total;
+  }
+
+  @WorkerMethod()
+  async echoChunk(data: Buffer) {
+    this.chunk(data, 'echo');
+  }
+}
@@ -0,0 +1,20 @@
+import { DefineWorker, OnWorkerUnresponsive, WorkerMethod } from '../..';
+
+@DefineWorker({ heartbeatInterval: 50, maxMissedHeartbeats: 2 })
+export class HeartbeatWorker {
+  unresponsive: number[] = [];
+
+  // Blocks the event loop of the worker thread
+  @WorkerMethod()
+  async block(ms: number) {
+    const until = Date.now() + ms;
+    while (Date.now() < until) {
+      // busy wait
+    }
+  }
+
+  @OnWorkerUnresponsive()
+  handleUnresponsive(missed: number) {
+    this.unresponsive.push(missed);
+  }
+}
@@ -0,0 +1,55 @@
+import { Struct } from 'typed-struct';
+import { threadId } from 'node:worker_threads';
+import {
+  DefineWorker,
+  OnWorkerShutdown,
+  TransportRemote,
+  WorkerInit,
+  WorkerMethod,
+} from '../..';
+
+const Base = new Struct('IdleBase')
+  .UInt32LE('inits')
+  .UInt32LE('total')
+  .UInt32LE('shutdowns')
+  .compile();
+
+@TransportRemote()
+export class IdleCounter {
+  count = 0;
+
+  increment() {
+    this.count += 1;
+    return this.count;
+  }
+}
+
+@DefineWorker()
+export class IdleWorker extends Base {
+  @WorkerInit()
+  async initialize() {
+    this.inits += 1;
+  }
+
+  @OnWorkerShutdown()
+  async shutdown() {
+    this.shutdowns += 1;
+  }
+
+  @WorkerMethod()
+  async add(value: number) {
+    this.total += value;
+    return threadId;
+  }
+
+  @WorkerMethod()
+  async wait(ms: number) {
+    await new Promise((resolve) => setTimeout(resolve, ms));
+    return threadId;
+  }
+
+  @WorkerMethod()
+  async createCounter() {
+    return new IdleCounter();
+  }
+}
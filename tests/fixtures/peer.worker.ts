@@ -0,0 +1,95 @@
+import { DefineWorker, WorkerMethod, TransportType } from '../..';
+
+export class Entry {
+  constructor(
+    public key: string,
+    public value: number,
+  ) {}
+
+  describe() {
+    return `${this.key}=${this.value}`;
+  }
+}
+
+@DefineWorker()
+export class StoreWorker {
+  private entries = new Map<string, number>();
+
+  @WorkerMethod()
+  async set(key: string, value: number) {
+    this.entries.set(key, value);
+  }
+
+  @WorkerMethod()
+  async get(key: string) {
+    return this.entries.get(key);
+  }
+
+  @WorkerMethod()
+  @TransportType(() => Entry)
+  async getEntry(key: string) {
+    return new Entry(key, this.entries.get(key) ?? 0);
+  }
+
+  @WorkerMethod()
+  async fail() {
+    throw new RangeError('store failure');
+  }
+
+  @WorkerMethod()
+  async *keys() {
+    yield* this.entries.keys();
+  }
+}
+
+@DefineWorker()
+export class ClientWorker {
+  private store?: StoreWorker;
+
+  @WorkerMethod()
+  async attach(store: StoreWorker) {
+    this.store = store;
+  }
+
+  @WorkerMethod()
+  async increment(key: string) {
+    const value = ((await this.store!.get(key)) ?? 0) + 1;
+    await this.store!.set(key, value);
+    return value;
+  }
+
+  @WorkerMethod()
+  async describe(key: string) {
+    const entry = await this.store!.getEntry(key);
+    return entry instanceof Entry ? entry.describe() : 'not an Entry';
+  }
+
+  @WorkerMethod()
+  async callFail() {
+    try {
+      await this.store!.fail();
+      return 'resolved';
+    } catch (error) {
+      return `${(error as Error).name}: ${(error as Error).message}`;
+    }
+  }
+
+  @WorkerMethod()
+  async callKeys() {
+    try {
+      await (this.store!.keys() as unknown as Promise<unknown>);
+      return 'resolved';
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }
+
+  @WorkerMethod()
+  async callGet(key: string) {
+    try {
+      return await this.store!.get(key);
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import {
+  DefineWorker,
+  TransportClass,
+  TransportType,
+  WorkerMethod,
+} from '../..';
+
+@TransportClass('shape')
+export class Shape {
+  area() {
+    return 0;
+  }
+}
+
+@TransportClass('circle')
+export class Circle extends Shape {
+  constructor(public radius: number) {
+    super();
+  }
+
+  area() {
+    return Math.PI * this.radius ** 2;
+  }
+}
+
+@TransportClass('square')
+export class Square extends Shape {
+  constructor(public side: number) {
+    super();
+  }
+
+  area() {
+    return this.side ** 2;
+  }
+}
+
+// Not registered
+export class Triangle extends Shape {
+  constructor(
+    public base: number,
+    public height: number,
+  ) {
+    super();
+  }
+}
+
+export class Drawing {
+  @TransportType(() => Shape)
+  main?: Shape;
+
+  @TransportType(() => [Shape])
+  shapes: Shape[] = [];
+}
+
+// Union members identified by their class name
+export class Dot {
+  kind = 'dot';
+}
+
+export class Line {
+  constructor(public length: number) {}
+}
+
+@DefineWorker()
+export class ShapeWorker {
+  @WorkerMethod()
+  async describe(
+    @TransportType(() => Drawing) drawing: Drawing,
+  ): Promise<string[]> {
+    return [drawing.main!, ...drawing.shapes].map(
+      (shape) => `${shape.constructor.name}:${shape.area().toFixed(2)}`,
+    );
+  }
+
+  @WorkerMethod()
+  @TransportType(() => [Circle, Square])
+  async grow(
+    @TransportType(() => [Circle, Square]) shape: Circle | Square,
+  ): Promise<Circle | Square> {
+    return shape instanceof Circle
+      ? new Circle(shape.radius * 2)
+      : new Square(shape.side * 2);
+  }
+
+  @WorkerMethod()
+  @TransportType(() => [[Dot, Line]])
+  async reverse(
+    @TransportType(() => [[Dot, Line]]) items: (Dot | Line)[],
+  ): Promise<(Dot | Line)[]> {
+    return [...items].reverse();
+  }
+}
@@ -0,0 +1,37 @@
+import { Struct } from 'typed-struct';
+import { threadId } from 'node:worker_threads';
+import { DefineWorker, WorkerMethod, WorkerCallback } from '../..';
+
+const Base = new Struct('PoolStructBase').UInt32LE('total').compile();
+
+@DefineWorker()
+export class PoolWorker extends Base {
+  callbackCount = 0;
+
+  constructor() {
+    super();
+  }
+
+  @WorkerMethod()
+  async work(duration: number) {
+    await new Promise((resolve) => setTimeout(resolve, duration));
+    return threadId;
+  }
+
+  @WorkerMethod()
+  addTotal(value: number) {
+    this.total += value;
+    return threadId;
+  }
+
+  @WorkerCallback()
+  onReport() {
+    this.callbackCount += 1;
+    return this.callbackCount;
+  }
+
+  @WorkerMethod()
+  async report() {
+    return this.onReport();
+  }
+}
@@ -0,0 +1,67 @@
+import { DefineWorker, WorkerMethod, TransportRemote } from '../..';
+
+@TransportRemote()
+export class RemoteCounter {
+  constructor(public count: number) {}
+
+  increment(by = 1) {
+    this.count += by;
+    return this.count;
+  }
+
+  async fork() {
+    return new RemoteCounter(this.count);
+  }
+
+  fail() {
+    throw new RangeError(`count is ${this.count}`);
+  }
+}
+
+export class WordIndex {
+  private words = new Map<string, number>();
+
+  add(text: string) {
+    for (const word of text.split(/\s+/)) {
+      this.words.set(word, (this.words.get(word) ?? 0) + 1);
+    }
+    return this.words.size;
+  }
+
+  lookup(word: string) {
+    return this.words.get(word) ?? 0;
+  }
+
+  snapshot() {
+    return Buffer.from([...this.words.keys()].join(','));
+  }
+}
+
+@DefineWorker({ restart: 'on-failure', restartDelay: 20 })
+export class RemoteWorker {
+  @WorkerMethod()
+  @TransportRemote()
+  async createIndex(): Promise<WordIndex> {
+    return new WordIndex();
+  }
+
+  @WorkerMethod()
+  async createCounter(start: number) {
+    return new RemoteCounter(start);
+  }
+
+  @WorkerMethod()
+  async createCounters(count: number) {
+    return Array.from(
+      { length: count },
+      (_, index) => new RemoteCounter(index),
+    );
+  }
+
+  @WorkerMethod()
+  crash() {
+    setTimeout(() => {
+      throw new Error('worker crashed');
+    }, 10);
+  }
+}
@@ -0,0 +1,75 @@
+import { Struct } from 'typed-struct';
+import { threadId } from 'node:worker_threads';
+import { DefineWorker, WorkerMethod, WorkerInit, OnWorkerRestart } from '../..';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const Base = new Struct('RestartStructBase').UInt32LE('counter').compile();
+
+@DefineWorker({ restart: 'on-failure', restartDelay: 20 })
+export class RestartWorker extends Base {
+  initCount = 0;
+  restartAttempts: number[] = [];
+
+  constructor(public label: string) {
+    super();
+  }
+
+  @WorkerInit()
+  init() {
+    this.initCount += 1;
+  }
+
+  @WorkerMethod()
+  increment() {
+    this.counter += 1;
+    return this.counter;
+  }
+
+  @WorkerMethod()
+  info() {
+    return { threadId, label: this.label, initCount: this.initCount };
+  }
+
+  @WorkerMethod()
+  crash() {
+    setTimeout(() => {
+      throw new Error('worker crashed');
+    }, 10);
+  }
+
+  @WorkerMethod()
+  exit(code: number) {
+    setTimeout(() => process.exit(code), 10);
+  }
+
+  @WorkerMethod({ idempotent: true })
+  async slowIdempotent(value: number, ms: number) {
+    await sleep(ms);
+    return value;
+  }
+
+  @WorkerMethod()
+  async slowPlain(value: number, ms: number) {
+    await sleep(ms);
+    return value;
+  }
+
+  @OnWorkerRestart()
+  onRestart(attempt: number) {
+    this.restartAttempts.push(attempt);
+  }
+}
+
+@DefineWorker({ restart: 'always', maxRestarts: 1, restartDelay: 20 })
+export class LimitedRestartWorker {
+  @WorkerMethod()
+  threadId() {
+    return threadId;
+  }
+
+  @WorkerMethod()
+  exit(code: number) {
+    setTimeout(() => process.exit(code), 10);
+  }
+}
@@ -0,0 +1,36 @@
+import { Struct } from 'typed-struct';
+import { DefineWorker, WorkerMethod, Shared, SharedRingBuffer } from '../..';
+
+const SampleBase = new Struct('RingSample')
+  .UInt32LE('seq')
+  .Float64LE('value')
+  .compile();
+
+export class Sample extends SampleBase {}
+
+export class SampleRing extends SharedRingBuffer.of(Sample) {}
+
+@DefineWorker()
+export class RingBufferWorker {
+  constructor(@Shared() private input: SharedRingBuffer) {}
+
+  @WorkerMethod()
+  async sumInput() {
+    let total = 0;
+    for await (const record of this.input) {
+      total += record.reduce((sum, byte) => sum + byte, 0);
+    }
+    return total;
+  }
+
+  @WorkerMethod()
+  async produce(ring: SampleRing, count: number) {
+    for (let seq = 0; seq < count; seq++) {
+      const sample = new Sample();
+      sample.seq = seq;
+      sample.value = seq / 2;
+      ring.push(sample);
+    }
+    ring.close();
+  }
+}
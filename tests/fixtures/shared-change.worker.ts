@@ -0,0 +1,29 @@
+import { Struct } from 'typed-struct';
+import { DefineWorker, WorkerMethod, notifySharedChange } from '../..';
+
+const Base = new Struct('SharedChangeBase')
+  .UInt32LE('progress')
+  .UInt32LE('total')
+  .compile();
+
+@DefineWorker({ sharedChanges: true })
+export class SharedChangeWorker extends Base {
+  @WorkerMethod()
+  async setProgress(progress: number) {
+    this.progress = progress;
+  }
+
+  @WorkerMethod()
+  async setTotal(total: number) {
+    this.total = total;
+  }
+
+  // Updates progress from a timer, after the call has returned
+  @WorkerMethod()
+  async advanceLater(progress: number, delay: number) {
+    setTimeout(() => {
+      this.progress = progress;
+      notifySharedChange(this);
+    }, delay);
+  }
+}
@@ -0,0 +1,63 @@
+import { Struct } from 'typed-struct';
+import {
+  DefineWorker,
+  WorkerMethod,
+  Synchronized,
+  SharedMutex,
+  SharedSemaphore,
+  SharedCondition,
+} from '../..';
+
+const Base = new Struct('SharedSyncBase')
+  .Int32LE('lock')
+  .UInt32LE('first')
+  .UInt32LE('second')
+  .compile();
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+@DefineWorker()
+export class SharedSyncWorker extends Base {
+  // Read-modify-write across ticks: updates are lost without the lock
+  @WorkerMethod()
+  @Synchronized('lock')
+  async incrementBoth() {
+    const first = this.first;
+    await tick();
+    this.first = first + 1;
+    const second = this.second;
+    await tick();
+    this.second = second + 1;
+  }
+
+  @WorkerMethod()
+  @Synchronized('lock')
+  async holdLock(ms: number) {
+    await new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  @WorkerMethod()
+  async isLocked(mutex: SharedMutex) {
+    return mutex.isLocked();
+  }
+
+  @WorkerMethod()
+  async acquire(semaphore: SharedSemaphore, count: number) {
+    for (let i = 0; i < count; i++) {
+      semaphore.acquire();
+    }
+    return semaphore.availablePermits();
+  }
+
+  @WorkerMethod()
+  async signal(
+    mutex: SharedMutex,
+    condition: SharedCondition,
+    cell: Int32Array,
+  ) {
+    await mutex.lockAsync();
+    Atomics.store(cell, 0, 1);
+    condition.notifyAll();
+    mutex.unlock();
+  }
+}
@@ -0,0 +1,52 @@
+import { Struct } from 'typed-struct';
+import { DefineWorker, WorkerMethod, SharedWriter, sharedWrite } from '../..';
+
+const Base = new Struct('SnapshotBase')
+  .Float64LE('x')
+  .Float64LE('y')
+  .UInt32LE('writes')
+  .compile();
+
+@DefineWorker()
+export class SnapshotWorker extends Base {
+  @SharedWriter()
+  moveTo(value: number) {
+    this.x = value;
+    this.y = value;
+    this.writes += 1;
+  }
+
+  // Writes x and y separately for `ms` milliseconds
+  @WorkerMethod()
+  async churn(ms: number) {
+    const end = Date.now() + ms;
+    for (let i = 1; Date.now() < end; i++) {
+      if (i % 2) {
+        this.moveTo(i);
+      } else {
+        sharedWrite(this, () => {
+          this.x = -i;
+          this.y = -i;
+          this.writes += 1;
+        });
+      }
+    }
+  }
+
+  // Only the part before the await is a write
+  @WorkerMethod()
+  @SharedWriter()
+  async set(value: number) {
+    this.x = value;
+    this.y = value;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    this.writes += 1;
+  }
+
+  @WorkerMethod()
+  @SharedWriter()
+  crashWhileWriting() {
+    this.x = -1;
+    process.exit(1);
+  }
+}
@@ -0,0 +1,50 @@
+import { DefineWorker, WorkerMethod, TransportType } from '../..';
+
+export class StreamItem {
+  constructor(public index: number) {}
+
+  double() {
+    return this.index * 2;
+  }
+}
+
+@DefineWorker()
+export class StreamWorker {
+  produced = 0;
+  closed = false;
+
+  @WorkerMethod()
+  async *range(count: number) {
+    this.produced = 0;
+    this.closed = false;
+    try {
+      for (let i = 0; i < count; i++) {
+        this.produced += 1;
+        yield i;
+      }
+    } finally {
+      this.closed = true;
+    }
+  }
+
+  @WorkerMethod()
+  @TransportType(() => StreamItem)
+  async *items(count: number) {
+    for (let i = 0; i < count; i++) {
+      yield new StreamItem(i);
+    }
+  }
+
+  @WorkerMethod()
+  async *failAfter(count: number) {
+    for (let i = 0; i < count; i++) {
+      yield i;
+    }
+    throw new Error('Stream failed');
+  }
+
+  @WorkerMethod()
+  stats() {
+    return { produced: this.produced, closed: this.closed };
+  }
+}
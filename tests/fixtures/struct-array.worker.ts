@@ -0,0 +1,54 @@
+import { Struct } from 'typed-struct';
+import {
+  DefineWorker,
+  WorkerMethod,
+  Shared,
+  SharedStructArray,
+  TransportType,
+} from '../..';
+
+const PointBase = new Struct('ArrayPoint').Int32LE('x').Int32LE('y').compile();
+
+export class Point extends PointBase {}
+
+export class Points extends SharedStructArray.of(Point) {}
+
+@DefineWorker()
+export class StructArrayWorker {
+  constructor(@Shared() private points: Points) {}
+
+  @WorkerMethod()
+  async count() {
+    return this.points.length;
+  }
+
+  @WorkerMethod()
+  async sumX() {
+    return this.points.toArray().reduce((sum, point) => sum + point.x, 0);
+  }
+
+  @WorkerMethod()
+  async translate(points: Points, dx: number) {
+    for (const point of points) {
+      point.x += dx;
+    }
+  }
+
+  @WorkerMethod()
+  @TransportType(() => Points)
+  async create(length: number): Promise<Points> {
+    const points = new Points(length);
+    points.at(length - 1).y = 42;
+    return points;
+  }
+
+  @WorkerMethod()
+  async grow(points: Points) {
+    points.grow(points.length + 1);
+  }
+
+  @WorkerMethod()
+  crash() {
+    setTimeout(() => process.exit(1), 10);
+  }
+}
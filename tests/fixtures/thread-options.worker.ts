@@ -0,0 +1,28 @@
+import { DefineWorker, WorkerMethod } from '../..';
+
+@DefineWorker({ env: { YUZUTHREAD_MODE: 'define' }, argv: ['--from-define'] })
+export class ThreadOptionsWorker {
+  @WorkerMethod()
+  async getEnv(key: string) {
+    return process.env[key];
+  }
+
+  @WorkerMethod()
+  async getArgv() {
+    return process.argv.slice(2);
+  }
+
+  @WorkerMethod()
+  async log(message: string) {
+    console.log(message);
+    console.error(`error: ${message}`);
+  }
+
+  @WorkerMethod()
+  async exhaustMemory() {
+    const hog: number[][] = [];
+    for (;;) {
+      hog.push(new Array(100000).fill(hog.length));
+    }
+  }
+}
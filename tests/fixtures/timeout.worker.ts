@@ -0,0 +1,64 @@
+import { threadId } from 'node:worker_threads';
+import {
+  DefineWorker,
+  WorkerMethod,
+  WorkerCallback,
+  WorkerAbortSignal,
+} from '../..';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+@DefineWorker({ timeout: 300 })
+export class TimeoutWorker {
+  cancelled = false;
+
+  @WorkerMethod({ timeout: 100 })
+  async slow(ms: number, @WorkerAbortSignal() signal?: AbortSignal) {
+    signal?.addEventListener('abort', () => {
+      this.cancelled = true;
+    });
+    await sleep(ms);
+    return ms;
+  }
+
+  @WorkerMethod()
+  async slowWithDefault(ms: number) {
+    await sleep(ms);
+    return ms;
+  }
+
+  @WorkerMethod()
+  wasCancelled() {
+    return this.cancelled;
+  }
+
+  @WorkerCallback({ timeout: 100 })
+  hangOnMain(): Promise<void> {
+    return new Promise(() => undefined);
+  }
+
+  @WorkerMethod()
+  async callHangingCallback() {
+    try {
+      await this.hangOnMain();
+      return 'resolved';
+    } catch (error) {
+      return `${(error as Error).name}: ${(error as Error).message}`;
+    }
+  }
+}
+
+@DefineWorker({ timeout: 200, onTimeout: 'restart' })
+export class RestartOnTimeoutWorker {
+  @WorkerMethod()
+  block() {
+    for (;;) {
+      // Busy loop that only thread termination can stop
+    }
+  }
+
+  @WorkerMethod()
+  threadId() {
+    return threadId;
+  }
+}
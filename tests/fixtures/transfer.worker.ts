@@ -0,0 +1,49 @@
+import { MessagePort } from 'node:worker_threads';
+import { DefineWorker, WorkerMethod, Transfer, transfer } from '../..';
+
+@DefineWorker()
+export class TransferWorker {
+  private kept?: Buffer;
+
+  @WorkerMethod()
+  async sum(@Transfer() data: Buffer) {
+    return data.reduce((total, byte) => total + byte, 0);
+  }
+
+  @WorkerMethod()
+  async sumAll(@Transfer() items: Uint8Array[]) {
+    return items.reduce(
+      (total, item) => total + item.reduce((sum, byte) => sum + byte, 0),
+      0,
+    );
+  }
+
+  @WorkerMethod()
+  async byteLength(data: ArrayBuffer) {
+    return data.byteLength;
+  }
+
+  @WorkerMethod()
+  @Transfer()
+  async fill(size: number, value: number): Promise<Buffer> {
+    return Buffer.alloc(size, value);
+  }
+
+  @WorkerMethod()
+  async fillAndKeep(size: number, value: number): Promise<Buffer> {
+    this.kept = Buffer.alloc(size, value);
+    return transfer(this.kept);
+  }
+
+  @WorkerMethod()
+  async keptLength() {
+    return this.kept?.byteLength ?? -1;
+  }
+
+  @WorkerMethod()
+  async connect(port: MessagePort) {
+    port.on('message', (value: number) => {
+      port.postMessage(value * 2);
+    });
+  }
+}
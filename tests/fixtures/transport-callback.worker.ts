@@ -0,0 +1,70 @@
+import {
+  DefineWorker,
+  WorkerMethod,
+  TransportCallback,
+  retainCallback,
+  releaseCallback,
+} from '../..';
+
+type Listener = (value: number) => Promise<number>;
+
+@DefineWorker()
+export class TransportCallbackWorker {
+  listener?: Listener;
+  unretained?: Listener;
+
+  @WorkerMethod()
+  async map(
+    values: number[],
+    @TransportCallback() fn: (value: number) => Promise<number>,
+  ) {
+    const results: number[] = [];
+    for (const value of values) {
+      results.push(await fn(value));
+    }
+    return results;
+  }
+
+  @WorkerMethod()
+  async callWithBuffer(
+    @TransportCallback() fn: (data: Buffer) => Promise<Buffer>,
+  ) {
+    const result = await fn(Buffer.from('ping'));
+    return Buffer.isBuffer(result) ? result.toString() : 'not a buffer';
+  }
+
+  @WorkerMethod()
+  async catchError(@TransportCallback() fn: () => Promise<void>) {
+    try {
+      await fn();
+      return 'resolved';
+    } catch (error) {
+      return `${error instanceof RangeError}:${(error as Error).message}`;
+    }
+  }
+
+  @WorkerMethod()
+  async subscribe(@TransportCallback() listener: Listener) {
+    this.listener = retainCallback(listener);
+  }
+
+  @WorkerMethod()
+  async notify(value: number) {
+    return this.listener!(value);
+  }
+
+  @WorkerMethod()
+  async unsubscribe() {
+    releaseCallback(this.listener!);
+  }
+
+  @WorkerMethod()
+  async keepUnretained(@TransportCallback() listener: Listener) {
+    this.unretained = listener;
+  }
+
+  @WorkerMethod()
+  async callUnretained(value: number) {
+    return this.unretained!(value);
+  }
+}
@@ -0,0 +1,66 @@
+import {
+  DefineWorker,
+  registerTransportClass,
+  TransportClass,
+  WorkerMethod,
+} from '../..';
+
+export class Money {
+  constructor(
+    public amount: number,
+    public currency: string,
+  ) {}
+
+  format() {
+    return `${this.amount.toFixed(2)} ${this.currency}`;
+  }
+}
+
+// Registered without a decorator, as for third-party classes
+registerTransportClass(Money);
+
+@TransportClass()
+export class Tag {
+  constructor(public name: string) {}
+
+  label() {
+    return `#${this.name}`;
+  }
+}
+
+export interface Order {
+  total: Money;
+  tags: Tag[];
+  meta: Record<string, unknown>;
+}
+
+export class Invoice {
+  // No @TransportType(): the design type is Object
+  payload: unknown;
+}
+
+@DefineWorker()
+export class UntypedWorker {
+  @WorkerMethod()
+  async describe(order: Order): Promise<string[]> {
+    return [
+      order.total.format(),
+      ...order.tags.map((tag) => tag.label()),
+      (order.meta.discount as Money).format(),
+    ];
+  }
+
+  @WorkerMethod()
+  async double(value: any): Promise<any> {
+    const money = value.items[0] as Money;
+    return {
+      items: [new Money(money.amount * 2, money.currency)],
+      note: value.note,
+    };
+  }
+
+  @WorkerMethod()
+  async unwrap(invoice: Invoice): Promise<boolean> {
+    return invoice instanceof Invoice && invoice.payload instanceof Money;
+  }
+}
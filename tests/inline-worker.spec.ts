@@ -0,0 +1,96 @@
+import { threadId } from 'node:worker_threads';
+import {
+  initWorker,
+  initWorkerPool,
+  initWorkerWithOptions,
+  setInlineWorkers,
+  WorkerStatus,
+} from '..';
+import { CounterWorker } from './fixtures/counter.worker.js';
+import { Entry, StoreWorker } from './fixtures/peer.worker.js';
+import { WorkerFinalizeTestWorker } from './fixtures/worker-finalize.worker.js';
+import { SharedChangeWorker } from './fixtures/shared-change.worker.js';
+
+describe('Inline workers', () => {
+  afterEach(() => setInlineWorkers(false));
+
+  it('should run methods and callbacks in this thread', async () => {
+    const worker = await initWorkerWithOptions(CounterWorker, {
+      inline: true,
+    });
+
+    expect(await worker.increment(2)).toEqual({
+      count: 2,
+      isMainThread: true,
+    });
+    expect(await worker.callMainAdd(1, 2)).toEqual({
+      count: 3,
+      isMainThread: true,
+    });
+    // The worker side is a separate instance
+    expect(worker.count).toBe(3);
+    expect(await worker.increment(1)).toEqual({
+      count: 3,
+      isMainThread: true,
+    });
+
+    await worker.finalize();
+    expect(worker.workerStatus()).toBe(WorkerStatus.Finalized);
+  });
+
+  it('should go through the transport', async () => {
+    const store = await initWorkerWithOptions(StoreWorker, { inline: true });
+
+    await store.set('size', 3);
+    const entry = await store.getEntry('size');
+    expect(entry).toBeInstanceOf(Entry);
+    expect(entry.describe()).toBe('size=3');
+    await expect(store.fail()).rejects.toThrow(RangeError);
+
+    await store.finalize();
+  });
+
+  it('should share typed-struct memory', async () => {
+    const worker = await initWorkerWithOptions(
+      SharedChangeWorker,
+      { inline: true },
+      new Array(8).fill(0),
+    );
+
+    await worker.setProgress(4);
+    expect(worker.progress).toBe(4);
+
+    await worker.finalize();
+  });
+
+  it('should exit after @WorkerFinalize()', async () => {
+    const worker = await initWorkerWithOptions(WorkerFinalizeTestWorker, {
+      inline: true,
+    });
+
+    expect(await worker.computeAndExit(4)).toBe(8);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(worker.exitCalled).toBe(true);
+    expect(worker.workerStatus()).toBe(WorkerStatus.Finalized);
+
+    await worker.finalize();
+  });
+
+  it('should be enabled globally with setInlineWorkers()', async () => {
+    setInlineWorkers(true);
+    const worker = await initWorker(CounterWorker);
+    const pool = await initWorkerPool(CounterWorker, { size: 2 });
+    const threaded = await initWorkerWithOptions(CounterWorker, {
+      inline: false,
+    });
+
+    expect((await worker.increment(1)).isMainThread).toBe(true);
+    expect((await pool.increment(1)).isMainThread).toBe(true);
+    expect((await threaded.increment(1)).isMainThread).toBe(false);
+    expect(threadId).toBe(0);
+
+    await worker.finalize();
+    await pool.finalize();
+    await threaded.finalize();
+  });
+});
@@ -0,0 +1,81 @@
+import { DefineWorker, initWorker, notifySharedChange } from '..';
+import { SharedChangeWorker } from './fixtures/shared-change.worker.js';
+
+const createWorker = () => initWorker(SharedChangeWorker, new Array(8).fill(0));
+
+describe('Shared change notifications', () => {
+  it('should resolve waitForChange() after a worker method', async () => {
+    const worker = await createWorker();
+
+    const changed = worker.waitForChange(5000);
+    await worker.setProgress(3);
+    expect(await changed).toBe(true);
+    expect(worker.progress).toBe(3);
+
+    await worker.finalize();
+  });
+
+  it('should resolve waitForChange() after notifySharedChange()', async () => {
+    const worker = await createWorker();
+
+    const changed = worker.waitForChange(5000);
+    await worker.advanceLater(7, 50);
+    // The method call itself counts as a change
+    expect(await changed).toBe(true);
+    expect(await worker.waitForChange(5000)).toBe(true);
+    expect(worker.progress).toBe(7);
+
+    await worker.finalize();
+  });
+
+  it('should return false when waitForChange() times out', async () => {
+    const worker = await createWorker();
+
+    expect(await worker.waitForChange(50)).toBe(false);
+
+    await worker.finalize();
+  });
+
+  it('should report the changed fields to onSharedChange()', async () => {
+    const worker = await createWorker();
+    const reports: string[][] = [];
+    const unsubscribe = worker.onSharedChange(
+      ['progress', 'total'],
+      (changed) => reports.push(changed),
+    );
+
+    await worker.setTotal(10);
+    await worker.setTotal(10);
+    await worker.setProgress(5);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(reports).toEqual([['total'], ['progress']]);
+
+    unsubscribe();
+    await worker.setProgress(6);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(reports).toHaveLength(2);
+
+    await worker.finalize();
+  });
+
+  it('should end pending waits on finalize()', async () => {
+    const worker = await createWorker();
+
+    const changed = worker.waitForChange();
+    await worker.finalize();
+    expect(await changed).toBe(false);
+  });
+
+  it('should reject notifySharedChange() on other instances', () => {
+    expect(() => notifySharedChange({})).toThrow(TypeError);
+  });
+
+  it('should require a typed-struct class', () => {
+    expect(() => {
+      @DefineWorker({ sharedChanges: true })
+      class PlainWorker {}
+      return PlainWorker;
+    }).toThrow(TypeError);
+  });
+});
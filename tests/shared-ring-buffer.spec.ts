@@ -0,0 +1,79 @@
+import { initWorker, SharedRingBuffer } from '..';
+import {
+  RingBufferWorker,
+  Sample,
+  SampleRing,
+} from './fixtures/ring-buffer.worker.js';
+
+describe('SharedRingBuffer', () => {
+  it('should queue fixed-size records', async () => {
+    const ring = new SharedRingBuffer(2, 4);
+
+    expect(ring.tryPop()).toBeUndefined();
+    expect(ring.tryPush(Buffer.from([1, 2, 3, 4]))).toBe(true);
+    expect(ring.tryPush(Buffer.from([5]))).toBe(true);
+    expect(ring.tryPush(Buffer.from([6]))).toBe(false);
+    expect(ring.push(Buffer.from([6]), 10)).toBe(false);
+    expect(ring.size()).toBe(2);
+    expect(() => ring.tryPush(Buffer.alloc(5))).toThrow(RangeError);
+
+    expect([...ring.tryPop()!]).toEqual([1, 2, 3, 4]);
+    expect([...ring.tryPop()!]).toEqual([5, 0, 0, 0]);
+    expect(ring.pop(10)).toBeUndefined();
+    expect(await ring.popAsync(10)).toBeUndefined();
+
+    // Indexes wrap around
+    for (let i = 0; i < 5; i++) {
+      expect(ring.tryPush(Buffer.from([i]))).toBe(true);
+      expect(ring.tryPop()![0]).toBe(i);
+    }
+
+    ring.tryPush(Buffer.from([7]));
+    ring.close();
+    expect(() => ring.tryPush(Buffer.from([8]))).toThrow(
+      'SharedRingBuffer is closed',
+    );
+    expect(ring.pop()![0]).toBe(7);
+    expect(ring.pop()).toBeUndefined();
+  });
+
+  it('should stream records to the worker', async () => {
+    const input = new SharedRingBuffer(4, 8);
+    const worker = await initWorker(RingBufferWorker, input);
+
+    const sum = worker.sumInput();
+    let expected = 0;
+    for (let i = 0; i < 100; i++) {
+      const record = Buffer.alloc(8, i % 7);
+      expected += (i % 7) * 8;
+      await input.pushAsync(record);
+    }
+    input.close();
+    expect(await sum).toBe(expected);
+
+    await worker.finalize();
+  });
+
+  it('should stream typed-struct records from the worker', async () => {
+    const ring = new SampleRing(4);
+    const worker = await initWorker(
+      RingBufferWorker,
+      new SharedRingBuffer(1, 1),
+    );
+
+    const produced = worker.produce(ring, 50);
+    const samples: { seq: number; value: number }[] = [];
+    for await (const sample of ring) {
+      expect(sample).toBeInstanceOf(Sample);
+      samples.push({ seq: sample.seq, value: sample.value });
+    }
+    await produced;
+
+    expect(samples).toHaveLength(50);
+    samples.forEach((sample, index) => {
+      expect(sample).toEqual({ seq: index, value: index / 2 });
+    });
+
+    await worker.finalize();
+  });
+});
@@ -0,0 +1,183 @@
+import { Struct } from 'typed-struct';
+import {
+  initWorker,
+  initWorkerWithOptions,
+  snapshot,
+  sharedWrite,
+  toShared,
+  WorkerStatus,
+} from '..';
+import { SnapshotWorker } from './fixtures/snapshot.worker.js';
+
+const createWorker = () => initWorker(SnapshotWorker, new Array(20).fill(0));
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const PairBase = new Struct('SnapshotPair')
+  .Int32LE('sequence')
+  .Int32LE('a')
+  .Int32LE('b')
+  .compile();
+class Pair extends PairBase {}
+
+describe('Shared snapshots', () => {
+  it('should never observe a write half done', async () => {
+    const worker = await createWorker();
+
+    const churning = worker.churn(300);
+    while (worker.writes === 0) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    for (let i = 0; i < 2000; i++) {
+      const state = snapshot(worker);
+      expect(state.x).toBe(state.y);
+    }
+    await churning;
+
+    await worker.finalize();
+  });
+
+  it('should return a copy that is not shared', async () => {
+    const worker = await createWorker();
+    await worker.churn(10);
+
+    const state = snapshot(worker);
+    const { x } = state;
+    worker.x = x + 1;
+    expect(state.x).toBe(x);
+    expect(state).toBeInstanceOf(SnapshotWorker);
+
+    await worker.finalize();
+  });
+
+  it('should not hold the write of an async @SharedWriter() across await', async () => {
+    const worker = await createWorker();
+
+    const setting = worker.set(5);
+    await sleep(20);
+    const state = snapshot(worker);
+    expect(state.x).toBe(5);
+    expect(state.y).toBe(5);
+    await setting;
+
+    await worker.finalize();
+  });
+
+  it('should not block an inline worker', async () => {
+    const worker = await initWorkerWithOptions(
+      SnapshotWorker,
+      { inline: true },
+      new Array(20).fill(0),
+    );
+
+    const setting = worker.set(5);
+    await sleep(20);
+    const state = snapshot(worker);
+    expect(state.x).toBe(5);
+    expect(state.y).toBe(5);
+    await setting;
+
+    await worker.finalize();
+  });
+
+  it('should keep overlapping @SharedWriter() calls consistent', async () => {
+    const worker = await createWorker();
+
+    const first = worker.set(7);
+    const second = worker.set(3);
+    for (let i = 0; i < 8; i++) {
+      await sleep(15);
+      const state = snapshot(worker);
+      expect(state.x).toBe(state.y);
+    }
+    await Promise.all([first, second]);
+    const state = snapshot(worker);
+    expect(state.x).toBe(3);
+    expect(state.y).toBe(3);
+
+    await worker.finalize();
+  });
+
+  it('should end the write of a thread that crashed in the middle of it', async () => {
+    const worker = await initWorkerWithOptions(
+      SnapshotWorker,
+      { restart: 'on-failure', restartDelay: 20 },
+      new Array(20).fill(0),
+    );
+
+    await expect(worker.crashWhileWriting()).rejects.toThrow();
+    for (let i = 0; i < 200; i++) {
+      if (worker.workerStatus() === WorkerStatus.Ready) break;
+      await sleep(10);
+    }
+    expect(worker.workerStatus()).toBe(WorkerStatus.Ready);
+    expect(snapshot(worker).x).toBe(-1);
+
+    await worker.set(2);
+    expect(snapshot(worker).y).toBe(2);
+
+    await worker.finalize();
+  });
+
+  it('should run nested writes as part of the outer one', async () => {
+    const pair = toShared(new Pair());
+
+    const outer = sharedWrite(
+      pair,
+      async () => {
+        pair.a = 1;
+        sharedWrite(
+          pair,
+          () => {
+            pair.b = 1;
+          },
+          'sequence',
+        );
+        expect(pair.sequence).toBe(1);
+        expect(snapshot(pair, 'sequence').b).toBe(1);
+        await sleep(20);
+        // No longer part of the write
+        expect(pair.sequence).toBe(2);
+        sharedWrite(
+          pair,
+          () => {
+            pair.b = 2;
+          },
+          'sequence',
+        );
+      },
+      'sequence',
+    );
+    // The write ended with the synchronous part
+    expect(pair.sequence).toBe(2);
+    expect(snapshot(pair, 'sequence').a).toBe(1);
+
+    await outer;
+    expect(pair.sequence).toBe(4);
+    expect(snapshot(pair, 'sequence').b).toBe(2);
+  });
+
+  it('should use a sequence field of any shared struct', () => {
+    const pair = toShared(new Pair());
+    sharedWrite(
+      pair,
+      () => {
+        pair.a = 1;
+        pair.b = 2;
+      },
+      'sequence',
+    );
+    expect(pair.sequence).toBe(2);
+
+    const copy = snapshot(pair, 'sequence');
+    pair.a = 3;
+    expect(copy.a).toBe(1);
+    expect(copy.b).toBe(2);
+  });
+
+  it('should reject instances without a sequence', () => {
+    expect(() => snapshot(new Pair())).toThrow(TypeError);
+    expect(() => snapshot(new Pair(), 'sequence')).toThrow(TypeError);
+    expect(() => snapshot({}, 'sequence')).toThrow(TypeError);
+  });
+});
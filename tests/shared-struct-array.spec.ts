@@ -0,0 +1,110 @@
+import {
+  initWorker,
+  initWorkerWithOptions,
+  SharedStructArray,
+  WorkerStatus,
+} from '..';
+import {
+  Point,
+  Points,
+  StructArrayWorker,
+} from './fixtures/struct-array.worker.js';
+
+const createPoints = (length: number) => {
+  const points = new Points(length);
+  for (let i = 0; i < length; i++) {
+    points.at(i).x = i + 1;
+  }
+  return points;
+};
+
+describe('SharedStructArray', () => {
+  it('should lay out records in one buffer', () => {
+    const points = new Points(3);
+    expect(points.buffer.byteLength).toBe(24);
+    expect(points.length).toBe(3);
+
+    const point = new Point();
+    point.x = 7;
+    point.y = -7;
+    points.set(1, point);
+    expect(points.at(1)).toBeInstanceOf(Point);
+    expect(points.at(1).y).toBe(-7);
+
+    // Records are views of the shared memory
+    points.at(2).x = 9;
+    expect(Buffer.from(points.buffer).readInt32LE(16)).toBe(9);
+    expect(points.toArray().map((p) => p.x)).toEqual([0, 7, 9]);
+
+    expect(() => points.at(3)).toThrow(RangeError);
+    expect(() => new (SharedStructArray as any)(1)).toThrow(TypeError);
+  });
+
+  it('should grow into a new buffer', () => {
+    const points = createPoints(2);
+    const before = points.buffer;
+
+    points.grow(4);
+    expect(points.buffer).not.toBe(before);
+    expect(points.length).toBe(4);
+    expect(points.toArray().map((p) => p.x)).toEqual([1, 2, 0, 0]);
+    expect(() => points.grow(1)).toThrow(RangeError);
+  });
+
+  it('should share the records with the worker', async () => {
+    const points = createPoints(3);
+    const worker = await initWorker(StructArrayWorker, points);
+
+    expect(await worker.sumX()).toBe(6);
+    points.at(0).x = 10;
+    expect(await worker.sumX()).toBe(15);
+
+    await worker.translate(points, 100);
+    expect(points.toArray().map((p) => p.x)).toEqual([110, 102, 103]);
+
+    const created = await worker.create(2);
+    expect(created).toBeInstanceOf(Points);
+    expect(created.at(1).y).toBe(42);
+
+    await worker.finalize();
+  });
+
+  it('should send grown buffers to the worker', async () => {
+    const points = createPoints(2);
+    const worker = await initWorker(StructArrayWorker, points);
+
+    points.grow(3);
+    points.at(2).x = 40;
+    expect(await worker.count()).toBe(3);
+    expect(await worker.sumX()).toBe(43);
+
+    await expect(worker.grow(points)).rejects.toThrow(
+      'SharedStructArray can only grow on the main thread',
+    );
+
+    await worker.finalize();
+  });
+
+  it('should send grown buffers to a restarted worker', async () => {
+    const points = createPoints(2);
+    const worker = await initWorkerWithOptions(
+      StructArrayWorker,
+      { restart: 'on-failure', restartDelay: 20 },
+      points,
+    );
+
+    points.grow(3);
+    points.at(2).x = 40;
+    await worker.crash();
+    for (let i = 0; i < 200; i++) {
+      if (worker.workerStatus() === WorkerStatus.Restarting) break;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    expect(worker.workerStatus()).toBe(WorkerStatus.Restarting);
+
+    expect(await worker.count()).toBe(3);
+    expect(await worker.sumX()).toBe(43);
+
+    await worker.finalize();
+  });
+});
@@ -0,0 +1,102 @@
+import { initWorker, SharedMutex, SharedSemaphore, SharedCondition } from '..';
+import { SharedSyncWorker } from './fixtures/shared-sync.worker.js';
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('Shared synchronization', () => {
+  it('should serialize @Synchronized() methods with the main thread', async () => {
+    const worker = await initWorker(SharedSyncWorker, new Array(12).fill(0));
+    const mutex = SharedMutex.fromStruct(worker, 'lock');
+
+    const mainUpdates = Array.from({ length: 20 }, () =>
+      mutex.runExclusive(async () => {
+        const first = worker.first;
+        await tick();
+        worker.first = first + 1;
+        worker.second += 1;
+      }),
+    );
+    const workerUpdates = Array.from({ length: 20 }, () =>
+      worker.incrementBoth(),
+    );
+    await Promise.all([...mainUpdates, ...workerUpdates]);
+
+    expect(worker.first).toBe(40);
+    expect(worker.second).toBe(40);
+    expect(mutex.isLocked()).toBe(false);
+
+    await worker.finalize();
+  });
+
+  it('should share a lock with the worker', async () => {
+    const worker = await initWorker(SharedSyncWorker, new Array(12).fill(0));
+    const mutex = SharedMutex.fromStruct(worker, 'lock');
+
+    const held = worker.holdLock(100);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(mutex.tryLock()).toBe(false);
+    await held;
+    expect(mutex.tryLock()).toBe(true);
+    expect(await worker.isLocked(SharedMutex.fromStruct(worker, 'lock'))).toBe(
+      true,
+    );
+    mutex.unlock();
+
+    const standalone = new SharedMutex();
+    standalone.lock();
+    expect(await worker.isLocked(standalone)).toBe(true);
+    standalone.unlock();
+    expect(await worker.isLocked(standalone)).toBe(false);
+    expect(() => standalone.unlock()).toThrow('SharedMutex is not locked');
+
+    await worker.finalize();
+  });
+
+  it('should hand out semaphore permits across threads', async () => {
+    const worker = await initWorker(SharedSyncWorker, new Array(12).fill(0));
+    const semaphore = new SharedSemaphore(1);
+
+    const acquired = worker.acquire(semaphore, 3);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(semaphore.availablePermits()).toBe(0);
+    semaphore.release(3);
+    expect(await acquired).toBe(1);
+    expect(semaphore.tryAcquire()).toBe(true);
+    expect(semaphore.tryAcquire()).toBe(false);
+
+    await worker.finalize();
+  });
+
+  it('should wake condition waiters', async () => {
+    const worker = await initWorker(SharedSyncWorker, new Array(12).fill(0));
+    const mutex = new SharedMutex();
+    const condition = new SharedCondition();
+    const cell = new Int32Array(new SharedArrayBuffer(4));
+
+    await mutex.lockAsync();
+    const signalled = worker.signal(mutex, condition, cell);
+    while (Atomics.load(cell, 0) === 0) {
+      expect(await condition.waitAsync(mutex, 1000)).toBe(true);
+    }
+    mutex.unlock();
+    await signalled;
+
+    await mutex.lockAsync();
+    expect(await condition.waitAsync(mutex, 10)).toBe(false);
+    expect(mutex.isLocked()).toBe(true);
+    mutex.unlock();
+
+    await worker.finalize();
+  });
+
+  it('should attach to existing memory', () => {
+    const buffer = new SharedArrayBuffer(SharedMutex.byteLength * 2);
+    const mutex = SharedMutex.from(buffer, SharedMutex.byteLength);
+    const same = SharedMutex.from(buffer, SharedMutex.byteLength);
+
+    expect(mutex.tryLock()).toBe(true);
+    expect(same.isLocked()).toBe(true);
+    expect(SharedMutex.from(buffer).isLocked()).toBe(false);
+    expect(() => SharedMutex.from(buffer, 2)).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,73 @@
+import { MessageChannel } from 'node:worker_threads';
+import { initWorker, transfer } from '..';
+import { TransferWorker } from './fixtures/transfer.worker.js';
+
+describe('@Transfer', () => {
+  it('should move @Transfer() arguments to the worker', async () => {
+    const worker = await initWorker(TransferWorker);
+
+    const data = Buffer.alloc(1024, 1);
+    expect(await worker.sum(data)).toBe(1024);
+    expect(data.byteLength).toBe(0);
+
+    const items = [new Uint8Array([1, 2]), new Uint8Array([3])];
+    expect(await worker.sumAll(items)).toBe(6);
+    expect(items.map((item) => item.byteLength)).toEqual([0, 0]);
+
+    await worker.finalize();
+  });
+
+  it('should copy Buffers that share their memory', async () => {
+    const worker = await initWorker(TransferWorker);
+
+    // Small Buffers are allocated from a shared pool
+    const pooled = Buffer.from([1, 2, 3]);
+    expect(pooled.byteLength).toBeLessThan(pooled.buffer.byteLength);
+    expect(await worker.sum(pooled)).toBe(6);
+    expect([...pooled]).toEqual([1, 2, 3]);
+
+    await worker.finalize();
+  });
+
+  it('should move @Transfer() and transfer() return values', async () => {
+    const worker = await initWorker(TransferWorker);
+
+    const filled = await worker.fill(4096, 2);
+    expect(Buffer.isBuffer(filled)).toBe(true);
+    expect(filled.byteLength).toBe(4096);
+    expect(filled.every((byte) => byte === 2)).toBe(true);
+
+    const kept = await worker.fillAndKeep(16, 3);
+    expect([...kept]).toEqual(new Array(16).fill(3));
+    expect(await worker.keptLength()).toBe(0);
+
+    await worker.finalize();
+  });
+
+  it('should move values wrapped with transfer()', async () => {
+    const worker = await initWorker(TransferWorker);
+
+    const data = new ArrayBuffer(64);
+    expect(await worker.byteLength(transfer(data))).toBe(64);
+    expect(data.byteLength).toBe(0);
+
+    const copied = new ArrayBuffer(64);
+    expect(await worker.byteLength(copied)).toBe(64);
+    expect(copied.byteLength).toBe(64);
+
+    await worker.finalize();
+  });
+
+  it('should transfer MessagePort arguments', async () => {
+    const worker = await initWorker(TransferWorker);
+    const { port1, port2 } = new MessageChannel();
+
+    await worker.connect(port2);
+    const reply = new Promise((resolve) => port1.once('message', resolve));
+    port1.postMessage(21);
+    expect(await reply).toBe(42);
+
+    port1.close();
+    await worker.finalize();
+  });
+});
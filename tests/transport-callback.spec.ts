@@ -0,0 +1,77 @@
+import { initWorker } from '..';
+import { TransportCallbackWorker } from './fixtures/transport-callback.worker.js';
+
+describe('@TransportCallback', () => {
+  it('should call function arguments on the main thread', async () => {
+    const worker = await initWorker(TransportCallbackWorker);
+    const seen: number[] = [];
+
+    const results = await worker.map([1, 2, 3], async (value) => {
+      seen.push(value);
+      return value * 10;
+    });
+
+    expect(results).toEqual([10, 20, 30]);
+    expect(seen).toEqual([1, 2, 3]);
+
+    await worker.finalize();
+  });
+
+  it('should transport callback arguments, results and errors', async () => {
+    const worker = await initWorker(TransportCallbackWorker);
+
+    expect(
+      await worker.callWithBuffer(async (data) =>
+        Buffer.from(`${data.toString()}-pong`),
+      ),
+    ).toBe('ping-pong');
+
+    expect(
+      await worker.catchError(async () => {
+        throw new RangeError('out of range');
+      }),
+    ).toBe('true:out of range');
+
+    await worker.finalize();
+  });
+
+  it('should release callbacks when the call completes', async () => {
+    const worker = await initWorker(TransportCallbackWorker);
+
+    await worker.keepUnretained(async (value) => value);
+    await expect(worker.callUnretained(1)).rejects.toThrow(
+      'Callback passed to keepUnretained has been released',
+    );
+
+    await worker.finalize();
+  });
+
+  it('should keep retained callbacks until released', async () => {
+    const worker = await initWorker(TransportCallbackWorker);
+    const received: number[] = [];
+
+    await worker.subscribe(async (value) => {
+      received.push(value);
+      return value + 1;
+    });
+    expect(await worker.notify(1)).toBe(2);
+    expect(await worker.notify(2)).toBe(3);
+    expect(received).toEqual([1, 2]);
+
+    await worker.unsubscribe();
+    await expect(worker.notify(3)).rejects.toThrow('has been released');
+    expect(received).toEqual([1, 2]);
+
+    await worker.finalize();
+  });
+
+  it('should reject non-function values', async () => {
+    const worker = await initWorker(TransportCallbackWorker);
+
+    await expect(worker.map([1], 42 as never)).rejects.toThrow(
+      '@TransportCallback() expects a function',
+    );
+
+    await worker.finalize();
+  });
+});
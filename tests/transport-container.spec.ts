@@ -0,0 +1,72 @@
+import { initWorker, toShared } from '..';
+import { ContainerWorker, Point, Tag } from './fixtures/container.worker.js';
+
+describe('Container transport', () => {
+  let worker: Awaited<ReturnType<typeof initWorker<typeof ContainerWorker>>>;
+
+  beforeAll(async () => {
+    worker = await initWorker(ContainerWorker);
+  });
+
+  afterAll(async () => {
+    await worker.finalize();
+  });
+
+  it('should transport the values of a Map with their class', async () => {
+    const createdAt = new Date('2024-01-02T03:04:05Z');
+    const result = await worker.renameTags(
+      new Map([['urgent', new Tag('urgent', createdAt)]]),
+    );
+
+    expect(result).toBeInstanceOf(Map);
+    const tag = result.get('urgent')!;
+    expect(tag).toBeInstanceOf(Tag);
+    expect(tag.label).toBe('#URGENT');
+    expect(tag.createdAt).toEqual(createdAt);
+  });
+
+  it('should transport records and Sets', async () => {
+    const result = await worker.collectTags({
+      a: new Tag('a', new Date(0)),
+      b: new Tag('b', new Date(0)),
+    });
+
+    expect(result).toBeInstanceOf(Set);
+    const tags = [...result];
+    expect(tags.every((tag) => tag instanceof Tag)).toBe(true);
+    expect(tags.map((tag) => tag.label)).toEqual(['##a', '##b']);
+  });
+
+  it('should transport tuples and nested containers', async () => {
+    const point = new Point();
+    point.x = 3;
+    point.y = 4;
+
+    const [tag, points] = await worker.describe([
+      new Tag('p', new Date(0)),
+      point,
+    ]);
+
+    expect(tag).toBeInstanceOf(Tag);
+    const list = points.get('#p')!;
+    expect(list).toHaveLength(2);
+    expect(list[0]).toBeInstanceOf(Point);
+    expect(list[0].length()).toBe(5);
+  });
+
+  it('should keep shared memory inside containers', async () => {
+    const point = toShared(new Point());
+    const buffer = Buffer.from(new SharedArrayBuffer(4));
+
+    await worker.movePoints(new Map([['p', point]]), new Set([buffer]));
+
+    expect(point.x).toBe(1);
+    expect(buffer[0]).toBe(42);
+  });
+
+  it('should reject values that do not match the descriptor', async () => {
+    await expect(worker.renameTags({} as any)).rejects.toThrow(
+      'arg[0]: Expected Map',
+    );
+  });
+});
@@ -0,0 +1,62 @@
+import { initWorker } from '..';
+import {
+  Circle,
+  Dot,
+  Drawing,
+  Line,
+  Shape,
+  ShapeWorker,
+  Square,
+  Triangle,
+} from './fixtures/polymorphic.worker.js';
+
+describe('Polymorphic transport', () => {
+  let worker: Awaited<ReturnType<typeof initWorker<typeof ShapeWorker>>>;
+
+  beforeAll(async () => {
+    worker = await initWorker(ShapeWorker);
+  });
+
+  afterAll(async () => {
+    await worker.finalize();
+  });
+
+  it('should rebuild registered subclasses of a declared base class', async () => {
+    const drawing = new Drawing();
+    drawing.main = new Circle(1);
+    drawing.shapes = [new Square(2), new Shape()];
+
+    expect(await worker.describe(drawing)).toEqual([
+      'Circle:3.14',
+      'Square:4.00',
+      'Shape:0.00',
+    ]);
+  });
+
+  it('should transport union types', async () => {
+    const circle = await worker.grow(new Circle(1));
+    expect(circle).toBeInstanceOf(Circle);
+    expect(circle.area()).toBeCloseTo(Math.PI * 4);
+
+    const square = await worker.grow(new Square(3));
+    expect(square).toBeInstanceOf(Square);
+    expect(square.area()).toBe(36);
+  });
+
+  it('should identify unregistered union members by class name', async () => {
+    const items = await worker.reverse([new Dot(), new Line(2)]);
+    expect(items[0]).toBeInstanceOf(Line);
+    expect(items[1]).toBeInstanceOf(Dot);
+  });
+
+  it('should reject classes outside the declared types', async () => {
+    const drawing = new Drawing();
+    drawing.main = new Triangle(1, 2);
+    await expect(worker.describe(drawing)).rejects.toThrow(
+      'arg[0].main: Class Triangle is not registered with @TransportClass()',
+    );
+    await expect(worker.grow(new Shape() as Circle)).rejects.toThrow(
+      'arg[0]: Expected Circle | Square, got Shape',
+    );
+  });
+});
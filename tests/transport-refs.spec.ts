@@ -0,0 +1,82 @@
+import { initWorker, setTransportPreserveRefs } from '..';
+import {
+  CircularRefWorker,
+  GraphWorker,
+  Holder,
+  Item,
+  Node,
+  Pair,
+  TreeNode,
+} from './fixtures/circular-ref.worker.js';
+
+describe('Reference-preserving transport', () => {
+  afterEach(() => setTransportPreserveRefs(false));
+
+  it('should transport a tree with parent references', async () => {
+    const worker = await initWorker(GraphWorker);
+    try {
+      const root = new TreeNode('root');
+      root.add(new TreeNode('a')).add(new TreeNode('b'));
+
+      const result = await worker.grow(root);
+      expect(result).toBeInstanceOf(TreeNode);
+      expect(result.children.map((child) => child.name)).toEqual([
+        'a',
+        'root+',
+      ]);
+      const a = result.children[0];
+      expect(a.parent).toBe(result);
+      expect(a.children[0].parent).toBe(a);
+      expect(a.children[0].children[0].name).toBe('b+');
+      expect(result.children[1].parent).toBe(result);
+    } finally {
+      await worker.finalize();
+    }
+  });
+
+  it('should keep objects shared by several fields', async () => {
+    const worker = await initWorker(GraphWorker);
+    try {
+      const node = new TreeNode('shared');
+      // Without preserveRefs the two copies are distinct
+      expect(await worker.isSameNode([node, node])).toBe(false);
+
+      setTransportPreserveRefs(true);
+      expect(await worker.isSameNode([node, node])).toBe(true);
+    } finally {
+      await worker.finalize();
+    }
+  });
+
+  it('should keep objects shared by untyped plain objects', async () => {
+    const worker = await initWorker(GraphWorker);
+    try {
+      // The first path to the shared item is longer to encode than to
+      // decode, and the second one the other way round
+      const shared = new Item('w');
+      const holder = new Holder();
+      holder.items = [
+        { x: new Pair(new Pair(new Item('a'), new Item('b')), shared) },
+        { y: new Pair({ note: new Item('c') }, shared) },
+      ];
+      expect(await worker.sharesItem(holder)).toBe(true);
+    } finally {
+      await worker.finalize();
+    }
+  });
+
+  it('should transport cycles when enabled globally', async () => {
+    const worker = await initWorker(CircularRefWorker);
+    try {
+      const node1 = new Node(10);
+      const node2 = new Node(20);
+      node1.next = node2;
+      node2.next = node1;
+
+      setTransportPreserveRefs(true);
+      expect(await worker.processNode(node1)).toEqual(new Node(20));
+    } finally {
+      await worker.finalize();
+    }
+  });
+});
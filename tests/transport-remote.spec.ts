@@ -0,0 +1,85 @@
+import { initWorker, RemoteObject, WorkerStatus } from '..';
+import {
+  RemoteWorker,
+  RemoteCounter,
+  WordIndex,
+} from './fixtures/remote.worker.js';
+
+describe('@TransportRemote', () => {
+  it('should keep method return values in the worker', async () => {
+    const worker = await initWorker(RemoteWorker);
+
+    const index =
+      (await worker.createIndex()) as unknown as RemoteObject<WordIndex>;
+    expect(index).not.toBeInstanceOf(WordIndex);
+    expect(await index.add('a b a c')).toBe(3);
+    expect(await index.lookup('a')).toBe(2);
+    expect((await index.snapshot()).toString()).toBe('a,b,c');
+
+    await worker.finalize();
+  });
+
+  it('should keep instances of remote classes in the worker', async () => {
+    const worker = await initWorker(RemoteWorker);
+
+    const counter = (await worker.createCounter(
+      5,
+    )) as unknown as RemoteObject<RemoteCounter>;
+    expect(await counter.increment()).toBe(6);
+    expect(await counter.increment(4)).toBe(10);
+
+    // Remote class instances returned by remote methods are remote as well
+    const fork =
+      (await counter.fork()) as unknown as RemoteObject<RemoteCounter>;
+    expect(await fork.increment()).toBe(11);
+    expect(await counter.increment()).toBe(11);
+
+    await expect(counter.fail()).rejects.toThrow(RangeError);
+
+    const counters = (await worker.createCounters(
+      2,
+    )) as unknown as RemoteObject<RemoteCounter>[];
+    expect(await counters[1].increment()).toBe(2);
+
+    await worker.finalize();
+  });
+
+  it('should reject calls after release and finalize', async () => {
+    const worker = await initWorker(RemoteWorker);
+
+    const released = (await worker.createCounter(
+      0,
+    )) as unknown as RemoteObject<RemoteCounter>;
+    released.release();
+    await expect(released.increment()).rejects.toThrow(
+      'Remote object has been released',
+    );
+
+    const counter = (await worker.createCounter(
+      0,
+    )) as unknown as RemoteObject<RemoteCounter>;
+    await worker.finalize();
+    await expect(counter.increment()).rejects.toThrow(
+      'Worker has been finalized',
+    );
+  });
+
+  it('should reject calls to objects of a crashed worker', async () => {
+    const worker = await initWorker(RemoteWorker);
+
+    const counter = (await worker.createCounter(
+      0,
+    )) as unknown as RemoteObject<RemoteCounter>;
+    await worker.crash();
+    for (let i = 0; i < 100; i++) {
+      if (worker.workerStatus() === WorkerStatus.Ready && i > 0) break;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+
+    await expect(counter.increment()).rejects.toThrow(
+      'Remote object is no longer available',
+    );
+
+    await worker.finalize();
+  });
+});
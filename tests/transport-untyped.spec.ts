@@ -0,0 +1,75 @@
+import { initWorker } from '..';
+import { encodeValue } from '../src/utility/transport';
+import { registerTransportClass } from '../src/utility/transport-class';
+import {
+  Invoice,
+  Money,
+  Tag,
+  UntypedWorker,
+} from './fixtures/untyped.worker.js';
+
+describe('Untyped class transport', () => {
+  let worker: Awaited<ReturnType<typeof initWorker<typeof UntypedWorker>>>;
+
+  beforeAll(async () => {
+    worker = await initWorker(UntypedWorker);
+  });
+
+  afterAll(async () => {
+    await worker.finalize();
+  });
+
+  it('should restore registered classes in interface-typed values', async () => {
+    const result = await worker.describe({
+      total: new Money(10, 'EUR'),
+      tags: [new Tag('gift'), new Tag('express')],
+      meta: { discount: new Money(1.5, 'EUR') },
+    });
+    expect(result).toEqual(['10.00 EUR', '#gift', '#express', '1.50 EUR']);
+  });
+
+  it('should restore registered classes in any-typed return values', async () => {
+    const note = { text: 'keep', nested: [1, { deep: true }] };
+    const result = await worker.double({ items: [new Money(3, 'USD')], note });
+    expect(result.items[0]).toBeInstanceOf(Money);
+    expect(result.items[0].format()).toBe('6.00 USD');
+    expect(result.note).toEqual(note);
+  });
+
+  it('should restore registered classes in untyped fields', async () => {
+    const invoice = new Invoice();
+    invoice.payload = new Money(5, 'JPY');
+    expect(await worker.unwrap(invoice)).toBe(true);
+  });
+
+  it('should copy circular plain objects as is', async () => {
+    const meta: Record<string, unknown> = { discount: new Money(2, 'EUR') };
+    meta.self = meta;
+    const result = await worker.describe({
+      total: new Money(1, 'EUR'),
+      tags: [],
+      meta,
+    });
+    expect(result).toEqual(['1.00 EUR', '2.00 EUR']);
+  });
+
+  it('should send plain objects without registered instances as is', async () => {
+    const rows = Array.from({ length: 20000 }, (_, idx) => ({
+      id: idx,
+      name: `row ${idx}`,
+      tags: ['a', 'b'],
+    }));
+    const encode = async () => {
+      const value = { rows };
+      const started = performance.now();
+      expect(await encodeValue(value, null, null)).toBe(value);
+      return performance.now() - started;
+    };
+
+    // Nothing is registered in this copy of the transport yet
+    expect(await encode()).toBeLessThan(500);
+    class Unused {}
+    registerTransportClass(Unused, 'UntypedSpec.Unused');
+    expect(await encode()).toBeLessThan(500);
+  });
+});
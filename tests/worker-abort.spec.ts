@@ -0,0 +1,60 @@
+import { initWorker, WorkerAbortError } from '..';
+import { AbortWorker } from './fixtures/abort.worker.js';
+
+describe('AbortSignal support', () => {
+  it('should reject with AbortError and stop the worker method', async () => {
+    const worker = await initWorker(AbortWorker);
+    const controller = new AbortController();
+
+    const call = worker
+      .withOptions({ signal: controller.signal })
+      .waitForAbort(5000);
+    setTimeout(() => controller.abort(), 100);
+
+    await expect(call).rejects.toBeInstanceOf(WorkerAbortError);
+    await expect(call).rejects.toMatchObject({ name: 'AbortError' });
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(await worker.wasAbortObserved()).toBe(true);
+
+    await worker.finalize();
+  });
+
+  it('should accept the signal in place of the @WorkerAbortSignal() parameter', async () => {
+    const worker = await initWorker(AbortWorker);
+    const controller = new AbortController();
+
+    const call = worker.waitForAbort(5000, controller.signal);
+    setTimeout(() => controller.abort('stop'), 100);
+
+    await expect(call).rejects.toMatchObject({
+      name: 'AbortError',
+      reason: 'stop',
+    });
+
+    await worker.finalize();
+  });
+
+  it('should reject immediately when the signal is already aborted', async () => {
+    const worker = await initWorker(AbortWorker);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      worker.withOptions({ signal: controller.signal }).echo('hello'),
+    ).rejects.toThrow('Worker call aborted: echo');
+
+    await worker.finalize();
+  });
+
+  it('should resolve normally when the signal is not aborted', async () => {
+    const worker = await initWorker(AbortWorker);
+    const controller = new AbortController();
+    const view = worker.withOptions({ signal: controller.signal });
+
+    expect(await view.echo('hello')).toBe('hello');
+    expect(await view.waitForAbort(20)).toBe(false);
+
+    await worker.finalize();
+  });
+});
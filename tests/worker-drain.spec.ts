@@ -0,0 +1,42 @@
+import { initWorker, WorkerStatus } from '..';
+import { DrainWorker } from './fixtures/drain.worker.js';
+
+describe('Draining finalize', () => {
+  it('should let calls in flight settle before exiting', async () => {
+    const worker = await initWorker(DrainWorker);
+
+    const slow = worker.slow(100);
+    const withCallback = worker.slowWithCallback(50);
+    const finalizing = worker.finalize({ mode: 'drain' });
+    await expect(worker.slow(1)).rejects.toThrow('Worker has been finalized');
+
+    await finalizing;
+    await expect(slow).resolves.toBe(100);
+    await expect(withCallback).resolves.toBeUndefined();
+    expect(worker.records).toEqual(['callback after 50ms', 'shutdown']);
+    expect(worker.workerStatus()).toBe(WorkerStatus.Finalized);
+  });
+
+  it('should terminate the worker after the timeout', async () => {
+    const worker = await initWorker(DrainWorker);
+
+    const hang = worker.hang();
+    // Rejected while finalize() is awaited
+    hang.catch(() => undefined);
+    const started = Date.now();
+    await worker.finalize({ mode: 'drain', timeout: 100 });
+    expect(Date.now() - started).toBeGreaterThanOrEqual(90);
+    await expect(hang).rejects.toThrow('Worker has been finalized');
+    expect(worker.records).toEqual([]);
+  });
+
+  it('should not run shutdown hooks on an immediate finalize', async () => {
+    const worker = await initWorker(DrainWorker);
+
+    const slow = worker.slow(100);
+    slow.catch(() => undefined);
+    await worker.finalize();
+    await expect(slow).rejects.toThrow('Worker has been finalized');
+    expect(worker.records).toEqual([]);
+  });
+});
@@ -0,0 +1,100 @@
+import { initWorker } from '..';
+import {
+  ErrorTransportWorker,
+  ErrorDetail,
+  ValidationError,
+} from './fixtures/error-transport.worker.js';
+
+describe('error transport', () => {
+  it('should rebuild registered error classes with their properties', async () => {
+    const worker = await initWorker(ErrorTransportWorker);
+
+    const error = await worker.throwValidation().catch((e) => e);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.name).toBe('ValidationError');
+    expect(error.message).toBe('invalid input');
+    expect(error.code).toBe(42);
+    // Properties go through the transport layer
+    expect(error.detail).toBeInstanceOf(ErrorDetail);
+    expect(error.detail.describe()).toBe('user.name: required');
+
+    await worker.finalize();
+  });
+
+  it('should combine the worker and main-thread stacks', async () => {
+    const worker = await initWorker(ErrorTransportWorker);
+
+    const error = await worker.throwValidation().catch((e) => e);
+    const [workerPart, mainPart] = error.stack.split(
+      '--- ErrorTransportWorker.throwValidation called from the main thread ---',
+    );
+    expect(workerPart).toContain('error-transport.worker');
+    expect(mainPart).toContain('worker-error-transport.spec');
+
+    await worker.finalize();
+  });
+
+  it('should preserve cause chains', async () => {
+    const worker = await initWorker(ErrorTransportWorker);
+
+    const error = await worker.throwWithCause().catch((e) => e);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toBe('outer failure');
+    expect(error.cause).toBeInstanceOf(ValidationError);
+    expect(error.cause.code).toBe(7);
+    expect(Object.keys(error)).not.toContain('cause');
+
+    await worker.finalize();
+  });
+
+  it('should preserve AggregateError errors', async () => {
+    const worker = await initWorker(ErrorTransportWorker);
+
+    const error = await worker.throwAggregate().catch((e) => e);
+    expect(error).toBeInstanceOf(AggregateError);
+    expect(error.message).toBe('many failures');
+    expect(error.errors).toHaveLength(2);
+    expect(error.errors[0]).toBeInstanceOf(ValidationError);
+    expect(error.errors[1]).toBeInstanceOf(RangeError);
+
+    await worker.finalize();
+  });
+
+  it('should fall back to the closest registered class', async () => {
+    const worker = await initWorker(ErrorTransportWorker);
+
+    const error = await worker.throwUnregistered().catch((e) => e);
+    expect(error).toBeInstanceOf(TypeError);
+    expect(error.message).toBe('fell back');
+
+    await expect(worker.throwString()).rejects.toThrow('plain string');
+
+    await worker.finalize();
+  });
+
+  it('should transport errors used as values', async () => {
+    const worker = await initWorker(ErrorTransportWorker);
+
+    const error = await worker.returnError();
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.code).toBe(3);
+
+    await worker.finalize();
+  });
+
+  it('should rebuild callback errors in the worker', async () => {
+    const worker = await initWorker(ErrorTransportWorker);
+
+    const result = await worker.inspectCallbackError();
+    expect(result).toMatchObject({
+      isValidationError: true,
+      name: 'ValidationError',
+      code: 9,
+    });
+    expect(result!.stack).toContain(
+      'ErrorTransportWorker.validateOnMain called from the worker',
+    );
+
+    await worker.finalize();
+  });
+});
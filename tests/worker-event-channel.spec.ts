@@ -0,0 +1,97 @@
+import { initWorker, initWorkerPool } from '..';
+import {
+  EventChannelWorker,
+  Progress,
+} from './fixtures/event-channel.worker.js';
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+describe('worker events', () => {
+  it('should deliver events to handlers in order with decoded arguments', async () => {
+    const worker = await initWorker(EventChannelWorker);
+    const seen: Progress[] = [];
+    const unsubscribe = worker.on('progress', (progress) => {
+      seen.push(progress);
+    });
+
+    expect(await worker.run(3)).toBe(3);
+    await flush();
+
+    expect(seen.map((progress) => progress.done)).toEqual([1, 2, 3]);
+    expect(seen[0]).toBeInstanceOf(Progress);
+    expect(seen[2].ratio()).toBe(1);
+    // The decorated method body runs on the main thread as well
+    expect(worker.received).toEqual([1, 2, 3]);
+
+    unsubscribe();
+    await worker.run(1);
+    await flush();
+    expect(seen).toHaveLength(3);
+
+    await worker.finalize();
+  });
+
+  it('should keep shared buffers shared', async () => {
+    const worker = await initWorker(EventChannelWorker);
+    const shared = Buffer.from(new SharedArrayBuffer(4));
+    const received = new Promise<[Buffer, string]>((resolve) => {
+      worker.on('chunk', (data, label) => resolve([data, label]));
+    });
+
+    await worker.echoChunk(shared);
+    const [data, label] = await received;
+    expect(label).toBe('echo');
+    expect(worker.lastChunk).toBe('echo:4');
+    data[0] = 42;
+    expect(shared[0]).toBe(42);
+
+    await worker.finalize();
+  });
+
+  it('should iterate events until the worker is finalized', async () => {
+    const worker = await initWorker(EventChannelWorker);
+    const iterator = worker.eventIterator('progress');
+
+    await worker.run(2);
+    const collected: number[] = [];
+    const consumed = (async () => {
+      for await (const [progress] of iterator) {
+        collected.push(progress.done);
+      }
+    })();
+
+    await flush();
+    await worker.finalize();
+    await consumed;
+    expect(collected).toEqual([1, 2]);
+  });
+
+  it('should stop iterating when the signal aborts', async () => {
+    const worker = await initWorker(EventChannelWorker);
+    const controller = new AbortController();
+    const iterator = worker.eventIterator('progress', {
+      signal: controller.signal,
+    });
+
+    await worker.run(1);
+    expect((await iterator.next()).value[0].done).toBe(1);
+    controller.abort();
+    expect((await iterator.next()).done).toBe(true);
+
+    await worker.finalize();
+  });
+
+  it('should collect events from every pool member', async () => {
+    const pool = await initWorkerPool(EventChannelWorker, { size: 2 });
+    let count = 0;
+    pool.on('progress', () => {
+      count += 1;
+    });
+
+    await Promise.all([pool.run(2), pool.run(2)]);
+    await flush();
+    expect(count).toBe(4);
+
+    await pool.finalize();
+  });
+});
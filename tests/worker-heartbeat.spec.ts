@@ -0,0 +1,74 @@
+import {
+  initWorker,
+  initWorkerPool,
+  initWorkerWithOptions,
+  WorkerStatus,
+} from '..';
+import { HeartbeatWorker } from './fixtures/heartbeat.worker.js';
+import { CounterWorker } from './fixtures/counter.worker.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('Heartbeat', () => {
+  it('should measure the round-trip time with ping()', async () => {
+    const worker = await initWorker(CounterWorker);
+    try {
+      const latency = await worker.ping();
+      expect(typeof latency).toBe('number');
+      expect(latency).toBeGreaterThanOrEqual(0);
+    } finally {
+      await worker.finalize();
+    }
+    await expect(worker.ping()).rejects.toThrow('Worker has been finalized');
+  });
+
+  it('should report a blocked worker as Unresponsive until it answers', async () => {
+    const worker = await initWorker(HeartbeatWorker);
+    try {
+      await sleep(120);
+      expect(worker.workerStatus()).toBe(WorkerStatus.Ready);
+
+      const blocking = worker.block(600);
+      await sleep(400);
+      expect(worker.workerStatus()).toBe(WorkerStatus.Unresponsive);
+      expect(worker.unresponsive).toEqual([2]);
+
+      await blocking;
+      await sleep(150);
+      expect(worker.workerStatus()).toBe(WorkerStatus.Ready);
+      expect(worker.unresponsive).toEqual([2]);
+    } finally {
+      await worker.finalize();
+    }
+  });
+
+  it('should let per-instance options override the heartbeat interval', async () => {
+    const worker = await initWorkerWithOptions(HeartbeatWorker, {
+      heartbeatInterval: 10000,
+    });
+    try {
+      await worker.block(300);
+      expect(worker.workerStatus()).toBe(WorkerStatus.Ready);
+      expect(worker.unresponsive).toEqual([]);
+    } finally {
+      await worker.finalize();
+    }
+  });
+
+  it('should queue pool calls on unresponsive members', async () => {
+    const pool = await initWorkerPool(HeartbeatWorker, { size: 2 });
+    try {
+      const blocking = Promise.all([pool.block(600), pool.block(600)]);
+      await sleep(400);
+      expect(pool.workerStatuses()).toEqual([
+        WorkerStatus.Unresponsive,
+        WorkerStatus.Unresponsive,
+      ]);
+
+      await expect(pool.block(0)).resolves.toBeUndefined();
+      await blocking;
+    } finally {
+      await pool.finalize();
+    }
+  });
+});
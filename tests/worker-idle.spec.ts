@@ -0,0 +1,129 @@
+import {
+  initWorkerPool,
+  initWorkerWithOptions,
+  RemoteObject,
+  WorkerStatus,
+} from '..';
+import { IdleCounter, IdleWorker } from './fixtures/idle.worker.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+const emptyStruct = () => new Array(12).fill(0);
+
+describe('Idle shutdown', () => {
+  it('should shut the thread down when idle and respawn it on the next call', async () => {
+    const worker = await initWorkerWithOptions(
+      IdleWorker,
+      { idleTimeout: 100 },
+      emptyStruct(),
+    );
+    try {
+      const firstThread = await worker.add(1);
+      expect(worker.workerStatus()).toBe(WorkerStatus.Ready);
+
+      await sleep(300);
+      expect(worker.workerStatus()).toBe(WorkerStatus.Idle);
+
+      const secondThread = await worker.add(2);
+      expect(secondThread).not.toBe(firstThread);
+      expect(worker.workerStatus()).toBe(WorkerStatus.Ready);
+      // The shared memory is kept and @WorkerInit() runs again
+      expect(worker.total).toBe(3);
+      expect(worker.inits).toBe(2);
+      // The idle thread ran its @OnWorkerShutdown() methods
+      expect(worker.shutdowns).toBe(1);
+    } finally {
+      await worker.finalize();
+    }
+  });
+
+  it('should not shut down while a call is in flight', async () => {
+    const worker = await initWorkerWithOptions(
+      IdleWorker,
+      { idleTimeout: 50 },
+      emptyStruct(),
+    );
+    try {
+      const thread = await worker.add(0);
+      expect(await worker.wait(200)).toBe(thread);
+      expect(await worker.add(0)).toBe(thread);
+    } finally {
+      await worker.finalize();
+    }
+  });
+
+  it('should not shut down while a remote object is in use', async () => {
+    const worker = await initWorkerWithOptions(
+      IdleWorker,
+      { idleTimeout: 50 },
+      emptyStruct(),
+    );
+    try {
+      const counter =
+        (await worker.createCounter()) as unknown as RemoteObject<IdleCounter>;
+      expect(await counter.increment()).toBe(1);
+
+      await sleep(200);
+      expect(worker.workerStatus()).toBe(WorkerStatus.Ready);
+      expect(await counter.increment()).toBe(2);
+
+      counter.release();
+      for (let i = 0; i < 200; i++) {
+        if (worker.workerStatus() === WorkerStatus.Idle) break;
+        await sleep(10);
+      }
+      expect(worker.workerStatus()).toBe(WorkerStatus.Idle);
+    } finally {
+      await worker.finalize();
+    }
+  });
+
+  it('should finalize an idle worker', async () => {
+    const worker = await initWorkerWithOptions(
+      IdleWorker,
+      { idleTimeout: 50 },
+      emptyStruct(),
+    );
+    await sleep(200);
+    expect(worker.workerStatus()).toBe(WorkerStatus.Idle);
+
+    await worker.finalize();
+    expect(worker.workerStatus()).toBe(WorkerStatus.Finalized);
+    await expect(worker.add(1)).rejects.toThrow('Worker has been finalized');
+  });
+
+  it('should wake idle pool members', async () => {
+    const pool = await initWorkerPool(
+      IdleWorker,
+      { size: 2, idleTimeout: 50 },
+      emptyStruct(),
+    );
+    try {
+      await sleep(200);
+      expect(pool.workerStatus()).toBe(WorkerStatus.Idle);
+
+      await pool.add(5);
+      expect(pool.total).toBe(5);
+      expect(pool.workerStatuses()).toContain(WorkerStatus.Ready);
+    } finally {
+      await pool.finalize();
+    }
+  });
+
+  it('should queue concurrent calls on a waking pool member', async () => {
+    const pool = await initWorkerPool(
+      IdleWorker,
+      { size: 1, idleTimeout: 50 },
+      emptyStruct(),
+    );
+    try {
+      await sleep(200);
+      expect(pool.workerStatus()).toBe(WorkerStatus.Idle);
+
+      const [first, second] = await Promise.all([pool.add(1), pool.add(2)]);
+      expect(second).toBe(first);
+      expect(pool.total).toBe(3);
+    } finally {
+      await pool.finalize();
+    }
+  });
+});
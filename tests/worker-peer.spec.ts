@@ -0,0 +1,90 @@
+import {
+  initWorker,
+  initWorkerPool,
+  initWorkerWithOptions,
+  WorkerStatus,
+} from '..';
+import { ClientWorker, StoreWorker } from './fixtures/peer.worker.js';
+
+describe('Worker peers', () => {
+  it('should call another worker directly', async () => {
+    const store = await initWorker(StoreWorker);
+    const client = await initWorker(ClientWorker);
+
+    await client.attach(store);
+    expect(await client.increment('hits')).toBe(1);
+    expect(await client.increment('hits')).toBe(2);
+    expect(await store.get('hits')).toBe(2);
+
+    await client.finalize();
+    await store.finalize();
+  });
+
+  it('should use the transport of the peer class', async () => {
+    const store = await initWorker(StoreWorker);
+    const client = await initWorker(ClientWorker);
+
+    await store.set('size', 3);
+    await client.attach(store);
+    expect(await client.describe('size')).toBe('size=3');
+    expect(await client.callFail()).toBe('RangeError: store failure');
+    expect(await client.callKeys()).toContain(
+      'Streaming methods cannot be called from a peer worker',
+    );
+
+    await client.finalize();
+    await store.finalize();
+  });
+
+  it('should reject calls once the peer exits', async () => {
+    const store = await initWorker(StoreWorker);
+    const client = await initWorker(ClientWorker);
+
+    await client.attach(store);
+    await store.finalize();
+    expect(await client.callGet('hits')).toBe(
+      'Peer worker has exited: StoreWorker',
+    );
+
+    await client.finalize();
+  });
+
+  it('should keep a connected peer out of idle shutdown', async () => {
+    const store = await initWorkerWithOptions(StoreWorker, {
+      idleTimeout: 50,
+    });
+    const client = await initWorker(ClientWorker);
+
+    await client.attach(store);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(store.workerStatus()).toBe(WorkerStatus.Ready);
+    expect(await client.increment('hits')).toBe(1);
+
+    await client.finalize();
+    for (let i = 0; i < 200; i++) {
+      if (store.workerStatus() === WorkerStatus.Idle) break;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    expect(store.workerStatus()).toBe(WorkerStatus.Idle);
+
+    await store.finalize();
+  });
+
+  it('should connect to a member of a pool', async () => {
+    const store = await initWorker(StoreWorker);
+    const clients = await initWorkerPool(ClientWorker, {
+      size: 2,
+      strategy: 'round-robin',
+    });
+
+    await clients.attach(store);
+    await clients.attach(store);
+    await Promise.all(
+      Array.from({ length: 10 }, () => clients.increment('hits')),
+    );
+    expect(await store.get('hits')).toBeGreaterThan(0);
+
+    await clients.finalize();
+    await store.finalize();
+  });
+});
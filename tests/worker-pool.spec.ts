@@ -0,0 +1,95 @@
+import { initWorkerPool, WorkerStatus } from '..';
+import { PoolWorker } from './fixtures/pool.worker.js';
+import { RestartWorker } from './fixtures/restart.worker.js';
+
+describe('initWorkerPool', () => {
+  it('should reject invalid pool sizes', async () => {
+    await expect(initWorkerPool(PoolWorker, { size: 0 })).rejects.toThrow(
+      'Worker pool size must be a positive integer',
+    );
+  });
+
+  it('should dispatch concurrent calls to the least busy worker', async () => {
+    const pool = await initWorkerPool(PoolWorker, { size: 3 });
+    expect(pool.poolSize()).toBe(3);
+
+    const threadIds = await Promise.all([
+      pool.work(100),
+      pool.work(100),
+      pool.work(100),
+    ]);
+    expect(new Set(threadIds).size).toBe(3);
+
+    await pool.finalize();
+  });
+
+  it('should rotate workers with round-robin strategy', async () => {
+    const pool = await initWorkerPool(PoolWorker, {
+      size: 2,
+      strategy: 'round-robin',
+    });
+
+    const first = await pool.work(0);
+    const second = await pool.work(0);
+    const third = await pool.work(0);
+    expect(first).not.toBe(second);
+    expect(third).toBe(first);
+
+    await pool.finalize();
+  });
+
+  it('should share the typed-struct buffer across all members', async () => {
+    const pool = await initWorkerPool(PoolWorker, { size: 2 });
+
+    const threadIds = await Promise.all([pool.addTotal(1), pool.addTotal(2)]);
+    expect(new Set(threadIds).size).toBe(2);
+    expect(pool.total).toBe(3);
+
+    await pool.finalize();
+  });
+
+  it('should run @WorkerCallback on the shared main-thread instance', async () => {
+    const pool = await initWorkerPool(PoolWorker, { size: 2 });
+
+    await Promise.all([pool.report(), pool.report()]);
+    expect(pool.callbackCount).toBe(2);
+
+    await pool.finalize();
+  });
+
+  it('should aggregate worker status and reject calls after finalize', async () => {
+    const pool = await initWorkerPool(PoolWorker, { size: 2 });
+    expect(pool.workerStatus()).toBe(WorkerStatus.Ready);
+    expect(pool.workerStatuses()).toEqual([
+      WorkerStatus.Ready,
+      WorkerStatus.Ready,
+    ]);
+
+    await pool.finalize();
+    expect(pool.workerStatus()).toBe(WorkerStatus.Finalized);
+    expect(pool.workerStatuses()).toEqual([
+      WorkerStatus.Finalized,
+      WorkerStatus.Finalized,
+    ]);
+    await expect(pool.work(0)).rejects.toThrow('Worker has been finalized');
+  });
+
+  it('should queue calls on a restarting member', async () => {
+    const pool = await initWorkerPool(RestartWorker, { size: 1 }, 'pool');
+    const before = await pool.info();
+    expect(await pool.increment()).toBe(1);
+
+    await pool.crash();
+    for (let i = 0; i < 200; i++) {
+      if (pool.workerStatus() === WorkerStatus.Restarting) break;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    expect(pool.workerStatus()).toBe(WorkerStatus.Restarting);
+
+    const after = await pool.info();
+    expect(after.threadId).not.toBe(before.threadId);
+    expect(await pool.increment()).toBe(2);
+
+    await pool.finalize();
+  });
+});
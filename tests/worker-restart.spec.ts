@@ -0,0 +1,105 @@
+import { initWorker, initWorkerWithOptions, WorkerStatus } from '..';
+import {
+  RestartWorker,
+  LimitedRestartWorker,
+} from './fixtures/restart.worker.js';
+
+const waitForStatus = async (
+  worker: { workerStatus: () => WorkerStatus },
+  status: WorkerStatus,
+) => {
+  for (let i = 0; i < 200 && worker.workerStatus() !== status; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  expect(worker.workerStatus()).toBe(status);
+};
+
+describe('worker restart', () => {
+  it('should restart a crashed worker with the same state', async () => {
+    const worker = await initWorker(RestartWorker, 'first');
+    const before = await worker.info();
+    expect(await worker.increment()).toBe(1);
+
+    await worker.crash();
+    await waitForStatus(worker, WorkerStatus.Restarting);
+
+    // Calls made while restarting wait for the new thread
+    const after = await worker.info();
+    expect(after.threadId).not.toBe(before.threadId);
+    expect(after.label).toBe('first');
+    // @WorkerInit() runs again on the new thread
+    expect(after.initCount).toBe(1);
+    // Typed struct fields live in the same SharedArrayBuffer
+    expect(worker.counter).toBe(1);
+    expect(await worker.increment()).toBe(2);
+    expect(worker.workerStatus()).toBe(WorkerStatus.Ready);
+    expect(worker.restartAttempts).toEqual([1]);
+
+    await worker.finalize();
+  });
+
+  it('should replay idempotent calls and reject the others', async () => {
+    const worker = await initWorker(RestartWorker, 'replay');
+
+    const idempotent = worker.slowIdempotent(1, 200);
+    const plain = worker.slowPlain(2, 200);
+    await worker.crash();
+
+    await expect(plain).rejects.toThrow('worker crashed');
+    expect(await idempotent).toBe(1);
+
+    await worker.finalize();
+  });
+
+  it('should not restart on a clean exit with on-failure', async () => {
+    const worker = await initWorker(RestartWorker, 'clean');
+
+    await worker.exit(0);
+    await waitForStatus(worker, WorkerStatus.Exited);
+    expect(worker.restartAttempts).toEqual([]);
+
+    await worker.finalize();
+  });
+
+  it('should let initWorker options override the DefineWorker policy', async () => {
+    const worker = await initWorkerWithOptions(
+      RestartWorker,
+      { restart: 'never' },
+      'never',
+    );
+
+    await worker.crash();
+    await waitForStatus(worker, WorkerStatus.Exited);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(worker.workerStatus()).toBe(WorkerStatus.Exited);
+    expect(worker.restartAttempts).toEqual([]);
+
+    await worker.finalize();
+  });
+
+  it('should stop restarting after maxRestarts', async () => {
+    const worker = await initWorker(LimitedRestartWorker);
+    const firstThreadId = await worker.threadId();
+
+    await worker.exit(0);
+    await waitForStatus(worker, WorkerStatus.Restarting);
+    expect(await worker.threadId()).not.toBe(firstThreadId);
+
+    await worker.exit(0);
+    await waitForStatus(worker, WorkerStatus.Exited);
+
+    await worker.finalize();
+  });
+
+  it('should reject calls waiting for a restart when finalized', async () => {
+    const worker = await initWorker(RestartWorker, 'finalize');
+
+    await worker.crash();
+    await waitForStatus(worker, WorkerStatus.Restarting);
+    const call = worker.info();
+    await worker.finalize();
+
+    await expect(call).rejects.toThrow('Worker has been finalized');
+    expect(worker.workerStatus()).toBe(WorkerStatus.Finalized);
+  });
+});
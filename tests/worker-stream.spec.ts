@@ -0,0 +1,111 @@
+import { initWorker, WorkerAbortError } from '..';
+import { StreamItem, StreamWorker } from './fixtures/stream.worker.js';
+
+const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+  const values: T[] = [];
+  for await (const value of iterable) {
+    values.push(value);
+  }
+  return values;
+};
+
+describe('streaming worker methods', () => {
+  it('should expose async generator methods as async iterables', async () => {
+    const worker = await initWorker(StreamWorker);
+
+    expect(await collect(worker.range(50))).toEqual(
+      Array.from({ length: 50 }, (_, i) => i),
+    );
+
+    await worker.finalize();
+  });
+
+  it('should transport chunks with the method transporter', async () => {
+    const worker = await initWorker(StreamWorker);
+
+    const items = await collect(worker.items(3));
+    expect(items).toHaveLength(3);
+    expect(items[2]).toBeInstanceOf(StreamItem);
+    expect(items[2].double()).toBe(4);
+
+    await worker.finalize();
+  });
+
+  it('should apply backpressure and close the worker generator on return()', async () => {
+    const worker = await initWorker(StreamWorker);
+
+    const iterator = worker.range(1000);
+    expect(await iterator.next()).toEqual({ value: 0, done: false });
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    const { produced } = await worker.stats();
+    expect(produced).toBeLessThan(40);
+
+    await iterator.return(undefined);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(await worker.stats()).toEqual({ produced, closed: true });
+
+    await worker.finalize();
+  });
+
+  it('should propagate errors thrown by the worker generator', async () => {
+    const worker = await initWorker(StreamWorker);
+
+    const values: number[] = [];
+    await expect(
+      (async () => {
+        for await (const value of worker.failAfter(2)) {
+          values.push(value);
+        }
+      })(),
+    ).rejects.toThrow('Stream failed');
+    expect(values).toEqual([0, 1]);
+
+    await worker.finalize();
+  });
+
+  it('should stop the stream when the signal aborts', async () => {
+    const worker = await initWorker(StreamWorker);
+    const controller = new AbortController();
+
+    const iterator = worker
+      .withOptions({ signal: controller.signal })
+      .range(1000);
+    await iterator.next();
+    controller.abort();
+
+    await expect(collect(iterator)).rejects.toBeInstanceOf(WorkerAbortError);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect((await worker.stats()).closed).toBe(true);
+
+    await worker.finalize();
+  });
+
+  it('should not start the stream when the signal aborts before it is sent', async () => {
+    const worker = await initWorker(StreamWorker);
+    const controller = new AbortController();
+
+    const iterator = worker
+      .withOptions({ signal: controller.signal })
+      .range(10);
+    const first = iterator.next();
+    controller.abort();
+
+    await expect(first).rejects.toBeInstanceOf(WorkerAbortError);
+    expect((await worker.stats()).produced).toBe(0);
+
+    await worker.finalize();
+  });
+
+  it('should end the stream when the worker is finalized', async () => {
+    const worker = await initWorker(StreamWorker);
+
+    const iterator = worker.range(1000);
+    await iterator.next();
+    await worker.finalize();
+
+    await expect(collect(iterator)).rejects.toThrow(
+      'Worker has been finalized',
+    );
+  });
+});
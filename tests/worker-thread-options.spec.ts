@@ -0,0 +1,68 @@
+import { PassThrough } from 'node:stream';
+import {
+  initWorker,
+  initWorkerWithOptions,
+  WorkerResourceLimitError,
+  WorkerStatus,
+} from '..';
+import { ThreadOptionsWorker } from './fixtures/thread-options.worker.js';
+
+const collect = (stream: PassThrough) => {
+  const chunks: Buffer[] = [];
+  stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+  return () => Buffer.concat(chunks).toString();
+};
+
+describe('Worker thread options', () => {
+  it('should apply @DefineWorker() options', async () => {
+    const worker = await initWorker(ThreadOptionsWorker);
+
+    expect(await worker.getEnv('YUZUTHREAD_MODE')).toBe('define');
+    expect(await worker.getArgv()).toEqual(['--from-define']);
+
+    await worker.finalize();
+  });
+
+  it('should let per-instance options override them', async () => {
+    const worker = await initWorkerWithOptions(ThreadOptionsWorker, {
+      env: { YUZUTHREAD_MODE: 'instance' },
+    });
+
+    expect(await worker.getEnv('YUZUTHREAD_MODE')).toBe('instance');
+    expect(await worker.getArgv()).toEqual(['--from-define']);
+
+    await worker.finalize();
+  });
+
+  it('should pipe output to streams', async () => {
+    const stdout = new PassThrough();
+    const stderr = new PassThrough();
+    const readStdout = collect(stdout);
+    const readStderr = collect(stderr);
+    const worker = await initWorkerWithOptions(ThreadOptionsWorker, {
+      stdout,
+      stderr,
+    });
+
+    await worker.log('hello');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(readStdout()).toBe('hello\n');
+    expect(readStderr()).toBe('error: hello\n');
+
+    await worker.finalize();
+  });
+
+  it('should reject with WorkerResourceLimitError when out of memory', async () => {
+    const worker = await initWorkerWithOptions(ThreadOptionsWorker, {
+      resourceLimits: { maxOldGenerationSizeMb: 16 },
+    });
+
+    const error = await worker.exhaustMemory().catch((err) => err);
+    expect(error).toBeInstanceOf(WorkerResourceLimitError);
+    expect(error.className).toBe('ThreadOptionsWorker');
+    expect(error.resourceLimits).toEqual({ maxOldGenerationSizeMb: 16 });
+    expect(worker.workerStatus()).toBe(WorkerStatus.Exited);
+
+    await worker.finalize();
+  }, 20000);
+});
@@ -0,0 +1,85 @@
+import { initWorker, WorkerStatus, WorkerTimeoutError } from '..';
+import {
+  TimeoutWorker,
+  RestartOnTimeoutWorker,
+} from './fixtures/timeout.worker.js';
+
+describe('worker timeouts', () => {
+  it('should reject with WorkerTimeoutError using the method timeout', async () => {
+    const worker = await initWorker(TimeoutWorker);
+
+    const call = worker.slow(1000);
+    await expect(call).rejects.toBeInstanceOf(WorkerTimeoutError);
+    await expect(call).rejects.toThrow(
+      'TimeoutWorker.slow timed out after 100ms',
+    );
+    await expect(call).rejects.toMatchObject({
+      className: 'TimeoutWorker',
+      method: 'slow',
+      timeout: 100,
+    });
+
+    // The worker-side AbortSignal is triggered for the timed out call
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(await worker.wasCancelled()).toBe(true);
+
+    await worker.finalize();
+  });
+
+  it('should resolve calls that finish within the timeout', async () => {
+    const worker = await initWorker(TimeoutWorker);
+
+    expect(await worker.slow(10)).toBe(10);
+    expect(await worker.slowWithDefault(10)).toBe(10);
+
+    await worker.finalize();
+  });
+
+  it('should fall back to the DefineWorker timeout', async () => {
+    const worker = await initWorker(TimeoutWorker);
+
+    await expect(worker.slowWithDefault(1000)).rejects.toThrow(
+      'TimeoutWorker.slowWithDefault timed out after 300ms',
+    );
+
+    await worker.finalize();
+  });
+
+  it('should prefer the per-call timeout from withOptions()', async () => {
+    const worker = await initWorker(TimeoutWorker);
+
+    // Shorter than the method timeout
+    await expect(
+      worker.withOptions({ timeout: 20 }).slowWithDefault(1000),
+    ).rejects.toThrow('TimeoutWorker.slowWithDefault timed out after 20ms');
+    // Longer than the method timeout
+    expect(await worker.withOptions({ timeout: 1000 }).slow(150)).toBe(150);
+    // 0 disables the timeouts for the call
+    expect(await worker.withOptions({ timeout: 0 }).slow(150)).toBe(150);
+
+    await worker.finalize();
+  });
+
+  it('should time out @WorkerCallback calls in the worker', async () => {
+    const worker = await initWorker(TimeoutWorker);
+
+    expect(await worker.callHangingCallback()).toBe(
+      'WorkerTimeoutError: TimeoutWorker.hangOnMain timed out after 100ms',
+    );
+
+    await worker.finalize();
+  });
+
+  it('should restart the worker when onTimeout is restart', async () => {
+    const worker = await initWorker(RestartOnTimeoutWorker);
+    const firstThreadId = await worker.threadId();
+
+    await expect(worker.block()).rejects.toBeInstanceOf(WorkerTimeoutError);
+
+    const secondThreadId = await worker.threadId();
+    expect(secondThreadId).not.toBe(firstThreadId);
+    expect(worker.workerStatus()).toBe(WorkerStatus.Ready);
+
+    await worker.finalize();
+  });
+});